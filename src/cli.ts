@@ -0,0 +1,173 @@
+// Get package.json for version
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import chalk from "chalk";
+import { Command } from "commander";
+import { compare_package_exports } from "./commands/compare_exports.js";
+import { extract_exports } from "./commands/extract_exports.js";
+import { extract_workspace_exports } from "./commands/extract_workspace_exports.js";
+import { smoke_test_package_exports } from "./commands/smoke_test_exports.js";
+import { verify_package_exports } from "./commands/verify_exports.js";
+
+const package_json = JSON.parse(
+	readFileSync(new URL("../package.json", import.meta.url), "utf8"),
+);
+
+// Get the current directory
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Initialize the CLI program
+const program = new Command();
+
+// Setup CLI configuration
+program
+	.name("xportify")
+	.description("CLI to handle file paths")
+	.version(package_json.version);
+
+// Define the default command
+program
+	.option("-p, --project <path>", "Path to resolve to absolute")
+	.option(
+		"--config <path>",
+		"Path to a configuration file (default: xportify.config.{mjs,js,json} or the xportify key of package.json)",
+	)
+	.option(
+		"--tsconfig <path>",
+		"Relative path of the tsconfig whose rootDir, outDir and declarationDir are used as defaults (default: tsconfig.json)",
+	)
+	.option(
+		"-s, --src <directory>",
+		"Relative source directory (default: rootDir of tsconfig or ./src)",
+	)
+	.option(
+		"-d, --dist <directory>",
+		"Relative destination directory (default: outDir of tsconfig or ./dist)",
+	)
+	.option(
+		"--types <directory>",
+		"Relative declaration directory (default: declarationDir of tsconfig or the destination directory)",
+	)
+	.option("-w, --write", "Write exports to package.json")
+	.option("-y, --yes", "Write without asking for confirmation")
+	.option(
+		"-c, --check",
+		"Fail if package.json exports differ from the generated ones",
+	)
+	.option(
+		"-m, --merge",
+		"Keep hand-written entries of package.json exports and only update generated ones",
+	)
+	.option(
+		"--preserve <subpaths...>",
+		'Hand-written subpaths kept as is when merging (e.g. "./package.json")',
+	)
+	.option(
+		"--strict",
+		"Only export the source files whose file-level JSDoc has a @public tag",
+	)
+	.option(
+		"--fix",
+		'Add the export targets that npm would not pack to the "files" field',
+	)
+	.option(
+		"--entry-fields",
+		"Derive the main, module and types fields from the root export",
+	)
+	.option(
+		"--types-versions",
+		"Also generate the typesVersions field, for consumers using moduleResolution node10",
+	)
+	.option(
+		"--side-effects",
+		"Generate the sideEffects field from the exported CSS files",
+	)
+	.option(
+		"--conditions <names...>",
+		"Custom conditions matched by file-name suffixes (e.g. client.browser.ts), in priority order",
+	)
+	.option(
+		"--patterns",
+		"Collapse directories whose subpaths all follow the same shape into subpath patterns",
+	)
+	.option(
+		"--jsr",
+		"Also generate the exports of jsr.json, deno.json or deno.jsonc, pointing at the TypeScript sources",
+	)
+	.option(
+		"--import-map [file]",
+		"Generate a browser import map from the exports, written to the file or printed",
+	)
+	.option(
+		"--import-map-prefix <url>",
+		'URL prefix of the import map targets (default: "./")',
+	)
+	.option(
+		"--import-map-conditions <names...>",
+		"Conditions selecting the import map targets, in priority order (default: browser import default)",
+	)
+	.option(
+		"--workspace",
+		"Generate the exports of every package of the workspace found at the project path",
+	)
+	.action((options) =>
+		options.workspace
+			? extract_workspace_exports(options)
+			: extract_exports(options),
+	);
+
+// Define verify command
+program
+	.command("verify")
+	.description(
+		"Resolve every generated subpath under node10, node16 (ESM and CJS) and bundler module resolution",
+	)
+	// the options of the default command apply to the generated exports
+	.action((_options, command) =>
+		verify_package_exports(command.optsWithGlobals()),
+	);
+
+// Define smoke command
+program
+	.command("smoke")
+	.description(
+		"Import or require every generated JavaScript target by its package specifier in an isolated Node.js process",
+	)
+	// the options of the default command apply to the generated exports
+	.action((_options, command) =>
+		smoke_test_package_exports(command.optsWithGlobals()),
+	);
+
+// Define compare command
+program
+	.command("compare")
+	.description(
+		"Compare the generated exports with a baseline and fail when subpaths are removed",
+	)
+	.option(
+		"--base <ref>",
+		'Git ref whose package.json is the baseline (e.g. "v1.2.0")',
+	)
+	.option(
+		"--snapshot <file>",
+		"Snapshot file saved earlier, used as the baseline",
+	)
+	.option("--save-snapshot <file>", "Save the generated exports as a snapshot")
+	.option(
+		"--approved-removals <subpaths...>",
+		"Removed subpaths accepted as intended breaking changes",
+	)
+	// the options of the default command apply to the generated exports
+	.action((_options, command) =>
+		compare_package_exports(command.optsWithGlobals()),
+	);
+
+// Define version command
+program.command("version").action(() => {
+	console.log(`Version: ${chalk.green(program.version())}`);
+});
+
+// Parse command line arguments
+program.parseAsync(process.argv);
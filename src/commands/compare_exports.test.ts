@@ -0,0 +1,90 @@
+import fs from "node:fs";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { create_file, create_temp_directory } from "../test_utils";
+import { compare_exports } from "./compare_exports";
+
+describe("compare_exports", () => {
+	let temp_dir: string;
+	let snapshot_path: string;
+
+	beforeEach(async () => {
+		temp_dir = create_temp_directory();
+		snapshot_path = path.join(temp_dir, "exports.snapshot.json");
+		create_file(temp_dir, "package.json", '{ "name": "test-package" }');
+		create_file(temp_dir, "src/index.ts");
+		create_file(temp_dir, "dist/index.js");
+		create_file(temp_dir, "dist/index.d.ts");
+		create_file(temp_dir, "src/utils.ts");
+		create_file(temp_dir, "dist/utils.js");
+		create_file(temp_dir, "dist/utils.d.ts");
+
+		await compare_exports({ project: temp_dir, saveSnapshot: snapshot_path });
+		fs.rmSync(path.join(temp_dir, "src/utils.ts"));
+		create_file(temp_dir, "src/helpers.ts");
+		create_file(temp_dir, "dist/helpers.js");
+	});
+
+	afterEach(() => {
+		fs.rmSync(temp_dir, { recursive: true, force: true });
+	});
+
+	it("should fail on subpaths removed since the snapshot", async () => {
+		const result = await compare_exports({
+			project: temp_dir,
+			snapshot: snapshot_path,
+		});
+
+		expect(result.success).toBe(false);
+		expect(result.release).toBe("major");
+		expect(
+			result.changes.map((change) => [change.kind, change.subpath]),
+		).toEqual([
+			["removed", "./utils"],
+			["added", "./helpers"],
+		]);
+		expect(result.diagnostics).toEqual([
+			{
+				severity: "error",
+				code: "breaking-removal",
+				message: `Subpath "./utils" was removed since ${snapshot_path}, which breaks its consumers. Add it to "approvedRemovals" if this is intended.`,
+			},
+		]);
+	});
+
+	it("should accept approved removals", async () => {
+		const result = await compare_exports({
+			project: temp_dir,
+			snapshot: snapshot_path,
+			approvedRemovals: ["./utils"],
+		});
+
+		expect(result.success).toBe(true);
+		expect(result.release).toBe("major");
+	});
+
+	it("should require a baseline", async () => {
+		const result = await compare_exports({ project: temp_dir });
+
+		expect(result.success).toBe(false);
+		expect(result.diagnostics[0].code).toBe("missing-baseline");
+	});
+
+	it("should compare pattern subpaths by the files they resolve to", async () => {
+		for (const name of ["button", "card"]) {
+			create_file(temp_dir, `src/components/${name}.ts`);
+			create_file(temp_dir, `dist/components/${name}.js`);
+			create_file(temp_dir, `dist/components/${name}.d.ts`);
+		}
+		await compare_exports({ project: temp_dir, saveSnapshot: snapshot_path });
+
+		const result = await compare_exports({
+			project: temp_dir,
+			snapshot: snapshot_path,
+			patterns: true,
+		});
+
+		expect(result.success).toBe(true);
+		expect(result.changes).toEqual([]);
+	});
+});
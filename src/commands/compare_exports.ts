@@ -0,0 +1,231 @@
+import path from "node:path";
+import chalk from "chalk";
+import {
+	classify_subpath_changes,
+	find_required_release,
+	type ReleaseType,
+	read_git_baseline,
+	read_snapshot_baseline,
+	type SubpathChange,
+	write_snapshot,
+} from "../lib/breaking_changes.js";
+import { format_exports_diff } from "../lib/exports_diff.js";
+import type { Diagnostic } from "../types.js";
+import {
+	type GenerateExportsOptions,
+	generate_exports,
+} from "./extract_exports.js";
+
+//  ██████╗ ██████╗ ███╗   ███╗███╗   ███╗ █████╗ ███╗   ██╗██████╗
+// ██╔════╝██╔═══██╗████╗ ████║████╗ ████║██╔══██╗████╗  ██║██╔══██╗
+// ██║     ██║   ██║██╔████╔██║██╔████╔██║███████║██╔██╗ ██║██║  ██║
+// ██║     ██║   ██║██║╚██╔╝██║██║╚██╔╝██║██╔══██║██║╚██╗██║██║  ██║
+// ╚██████╗╚██████╔╝██║ ╚═╝ ██║██║ ╚═╝ ██║██║  ██║██║ ╚████║██████╔╝
+//  ╚═════╝ ╚═════╝ ╚═╝     ╚═╝╚═╝     ╚═╝╚═╝  ╚═╝╚═╝  ╚═══╝╚═════╝
+
+/**
+ * CLI command: compares the generated exports with a baseline and prints the changes of the public subpaths
+ */
+export async function compare_package_exports(
+	cli_options: CompareExportsOptions,
+) {
+	const result = await compare_exports(cli_options);
+
+	if (result.baseline !== undefined) {
+		console.log(chalk.blue("🔖 Baseline:"), result.baseline);
+	}
+
+	if (result.snapshot !== undefined) {
+		console.log(chalk.blue("📸 Snapshot saved to"), result.snapshot);
+	}
+
+	if (result.changes.length > 0) {
+		console.log(
+			chalk.blue(
+				`\n📝 Changes to the public subpaths (${result.changes.length} differences):`,
+			),
+		);
+
+		for (const line of format_exports_diff(
+			result.changes.map((change) => change.change),
+		)) {
+			console.log(line);
+		}
+	}
+
+	for (const diagnostic of result.diagnostics) {
+		if (diagnostic.severity === "error") {
+			console.log(chalk.red(`💥 ${diagnostic.message}`));
+		} else {
+			console.log(chalk.yellow(`⚠️ ${diagnostic.message}`));
+		}
+	}
+
+	if (!result.success) {
+		process.exit(1);
+	}
+
+	if (result.baseline === undefined) {
+		return;
+	}
+
+	if (result.release === undefined) {
+		console.log(chalk.green("\n✅ The public subpaths are unchanged."));
+	} else {
+		const counts = (["removed", "added", "retargeted"] as const)
+			.map(
+				(kind) =>
+					`${result.changes.filter((change) => change.kind === kind).length} ${kind}`,
+			)
+			.join(", ");
+
+		console.log(
+			chalk.green(`\n✅ Requires a ${result.release} release (${counts}).`),
+		);
+	}
+}
+
+//  █████╗ ██████╗ ██╗
+// ██╔══██╗██╔══██╗██║
+// ███████║██████╔╝██║
+// ██╔══██║██╔═══╝ ██║
+// ██║  ██║██║     ██║
+// ╚═╝  ╚═╝╚═╝     ╚═╝
+
+/**
+ * Options of the comparison, the exports being generated with the same options as the default command
+ */
+export type CompareExportsOptions = GenerateExportsOptions & {
+	/** Git ref whose package.json exports are the baseline (e.g. "v1.2.0") */
+	base?: string;
+	/** Snapshot file whose exports are the baseline, relative to the current directory */
+	snapshot?: string;
+	/** Snapshot file the generated exports are saved to, relative to the current directory */
+	saveSnapshot?: string;
+};
+
+/**
+ * Result of the comparison
+ */
+export type CompareExportsResult = {
+	/** Whether no subpath was removed without being approved */
+	success: boolean;
+	/** The git ref or the absolute path of the snapshot compared against */
+	baseline?: string;
+	/** The absolute path of the saved snapshot */
+	snapshot?: string;
+	/** The removed, added and retargeted subpaths */
+	changes: SubpathChange[];
+	/** The release the changes require, undefined if the subpaths are unchanged */
+	release?: ReleaseType;
+	/** Diagnostics of the generation, then one error per removal that is not approved */
+	diagnostics: Diagnostic[];
+};
+
+/**
+ * Generates the exports of a project and compares them with the exports of a baseline, without
+ * writing package.json
+ *
+ * The baseline is package.json at a git ref, read with the local git, or a snapshot saved earlier.
+ * Removed subpaths break their consumers and fail the comparison, unless listed in the
+ * `approvedRemovals` option.
+ *
+ * @param options - The project path, the baseline and the options overriding the project configuration
+ * @returns The classified changes and the diagnostics
+ * @example
+ * const result = await compare_exports({ project: '.', base: 'v1.2.0' })
+ * if (!result.success) console.error(result.diagnostics)
+ */
+export async function compare_exports(
+	options: CompareExportsOptions,
+): Promise<CompareExportsResult> {
+	const { base, snapshot, saveSnapshot, ...generate_options } = options;
+	const generation = await generate_exports({
+		...generate_options,
+		write: false,
+		check: false,
+	});
+	const result: CompareExportsResult = {
+		success: false,
+		changes: [],
+		diagnostics: [...generation.diagnostics],
+	};
+	const fail = (code: string, message: string) => {
+		result.diagnostics.push({ severity: "error", code, message });
+
+		return result;
+	};
+
+	if (!generation.success || generation.paths.project === undefined) {
+		return result;
+	}
+
+	if (base !== undefined && snapshot !== undefined) {
+		return fail(
+			"invalid-baseline",
+			"Compare with either a git ref or a snapshot, not both.",
+		);
+	}
+
+	if (base === undefined && snapshot === undefined) {
+		if (saveSnapshot === undefined) {
+			return fail(
+				"missing-baseline",
+				"Give the git ref or the snapshot to compare with, or a snapshot to save.",
+			);
+		}
+	} else {
+		const snapshot_path =
+			snapshot === undefined
+				? undefined
+				: path.resolve(process.cwd(), snapshot);
+		const baseline_validation =
+			snapshot_path === undefined
+				? await read_git_baseline(generation.paths.project, base as string)
+				: read_snapshot_baseline(snapshot_path);
+		if (!baseline_validation.validated) {
+			return fail("invalid-baseline", baseline_validation.error);
+		}
+		result.baseline = snapshot_path ?? base;
+
+		result.changes = classify_subpath_changes(
+			baseline_validation.data,
+			generation.exports,
+			generation.paths.project,
+		);
+		result.release = find_required_release(result.changes);
+
+		for (const change of result.changes) {
+			if (
+				change.kind === "removed" &&
+				!generation.options.approvedRemovals.includes(change.subpath)
+			) {
+				result.diagnostics.push({
+					severity: "error",
+					code: "breaking-removal",
+					message: `Subpath "${change.subpath}" was removed since ${result.baseline}, which breaks its consumers. Add it to "approvedRemovals" if this is intended.`,
+				});
+			}
+		}
+	}
+
+	if (saveSnapshot !== undefined) {
+		const snapshot_path = path.resolve(process.cwd(), saveSnapshot);
+
+		try {
+			write_snapshot(snapshot_path, generation.exports);
+			result.snapshot = snapshot_path;
+		} catch (error) {
+			return fail(
+				"write-failed",
+				`Error saving the snapshot: ${(error as Error).message}`,
+			);
+		}
+	}
+
+	result.success = !result.diagnostics.some(
+		(diagnostic) => diagnostic.severity === "error",
+	);
+
+	return result;
+}
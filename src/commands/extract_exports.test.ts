@@ -1,28 +1,10 @@
 import fs from "node:fs";
-import { tmpdir } from "node:os";
 import path from "node:path";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
-import { __tests__ } from "./extract_exports";
-
-const { generate_exports_object, update_package_json_exports } = __tests__;
-
-// Utility function to create temporary directory structure
-const create_temp_directory = () => {
-	const temp_dir = fs.mkdtempSync(path.join(tmpdir(), "xportify-test-"));
-	return temp_dir;
-};
-
-// Utility function to create file with directory structure
-const create_file = (
-	base_path: string,
-	relative_path: string,
-	content = "",
-) => {
-	const full_path = path.join(base_path, relative_path);
-	const dir = path.dirname(full_path);
-	fs.mkdirSync(dir, { recursive: true });
-	fs.writeFileSync(full_path, content);
-};
+import { create_file, create_temp_directory } from "../test_utils";
+import { __tests__, generate_exports } from "./extract_exports";
+
+const { generate_exports_object, write_package_json_exports } = __tests__;
 
 describe("generate_exports_object", () => {
 	let temp_dir: string;
@@ -155,6 +137,164 @@ describe("generate_exports_object", () => {
 		});
 	});
 
+	describe("dual ESM/CJS builds", () => {
+		it("should generate import and require conditions for .js and .cjs", () => {
+			create_file(source_path, "index.ts");
+			create_file(destination_path, "index.js");
+			create_file(destination_path, "index.d.ts");
+			create_file(destination_path, "index.cjs");
+			create_file(destination_path, "index.d.cts");
+
+			const result = generate_exports_object(
+				["index.ts"],
+				[], // no CSS files
+				destination_path,
+			);
+
+			expect(result).toEqual({
+				".": {
+					import: {
+						types: "./dist/index.d.ts",
+						default: "./dist/index.js",
+					},
+					require: {
+						types: "./dist/index.d.cts",
+						default: "./dist/index.cjs",
+					},
+				},
+			});
+		});
+
+		it("should treat .js as CommonJS when a .mjs sibling exists", () => {
+			create_file(source_path, "utils/helper.ts");
+			create_file(destination_path, "utils/helper.mjs");
+			create_file(destination_path, "utils/helper.d.mts");
+			create_file(destination_path, "utils/helper.js");
+			create_file(destination_path, "utils/helper.d.ts");
+
+			const result = generate_exports_object(
+				["utils/helper.ts"],
+				[], // no CSS files
+				destination_path,
+			);
+
+			expect(result).toEqual({
+				"./utils/helper": {
+					import: {
+						types: "./dist/utils/helper.d.mts",
+						default: "./dist/utils/helper.mjs",
+					},
+					require: {
+						types: "./dist/utils/helper.d.ts",
+						default: "./dist/utils/helper.js",
+					},
+				},
+			});
+		});
+
+		it("should omit types from a format without declarations", () => {
+			create_file(source_path, "config.ts");
+			create_file(destination_path, "config.js");
+			create_file(destination_path, "config.d.ts");
+			create_file(destination_path, "config.cjs");
+
+			const result = generate_exports_object(
+				["config.ts"],
+				[], // no CSS files
+				destination_path,
+			);
+
+			expect(result).toEqual({
+				"./config": {
+					import: {
+						types: "./dist/config.d.ts",
+						default: "./dist/config.js",
+					},
+					require: {
+						default: "./dist/config.cjs",
+					},
+				},
+			});
+		});
+
+		it("should export a CommonJS-only build with require condition", () => {
+			create_file(source_path, "legacy.ts");
+			create_file(destination_path, "legacy.cjs");
+			create_file(destination_path, "legacy.d.cts");
+
+			const result = generate_exports_object(
+				["legacy.ts"],
+				[], // no CSS files
+				destination_path,
+			);
+
+			expect(result).toEqual({
+				"./legacy": {
+					require: {
+						types: "./dist/legacy.d.cts",
+						default: "./dist/legacy.cjs",
+					},
+				},
+			});
+		});
+	});
+
+	describe("platform variants", () => {
+		it("should group file-name suffixes under the base subpath", () => {
+			for (const name of ["client", "client.browser", "client.react-server"]) {
+				create_file(source_path, `${name}.ts`);
+				create_file(destination_path, `${name}.js`);
+				create_file(destination_path, `${name}.d.ts`);
+			}
+
+			const result = generate_exports_object(
+				["client.browser.ts", "client.react-server.ts", "client.ts"],
+				[],
+				destination_path,
+				{},
+				undefined,
+				["react-server", "browser", "node"],
+			);
+
+			expect(result).toEqual({
+				"./client": {
+					"react-server": {
+						types: "./dist/client.react-server.d.ts",
+						import: "./dist/client.react-server.js",
+					},
+					browser: {
+						types: "./dist/client.browser.d.ts",
+						import: "./dist/client.browser.js",
+					},
+					default: {
+						types: "./dist/client.d.ts",
+						import: "./dist/client.js",
+					},
+				},
+			});
+			expect(Object.keys(result["./client"] as object)).toEqual([
+				"react-server",
+				"browser",
+				"default",
+			]);
+		});
+
+		it("should keep suffixes as subpaths without conditions", () => {
+			create_file(source_path, "client.browser.ts");
+			create_file(destination_path, "client.browser.js");
+
+			const result = generate_exports_object(
+				["client.browser.ts"],
+				[],
+				destination_path,
+			);
+
+			expect(result).toEqual({
+				"./client.browser": { import: "./dist/client.browser.js" },
+			});
+		});
+	});
+
 	describe("CSS files handling", () => {
 		it("should export CSS files with .css extension in export path", () => {
 			create_file(destination_path, "styles.css");
@@ -394,7 +534,7 @@ describe("generate_exports_object", () => {
 	});
 });
 
-describe("update_package_json_exports", () => {
+describe("write_package_json_exports", () => {
 	let temp_dir: string;
 	let package_json_path: string;
 
@@ -430,7 +570,7 @@ describe("update_package_json_exports", () => {
 			},
 		};
 
-		update_package_json_exports(package_json_path, exports_to_add);
+		write_package_json_exports(package_json_path, exports_to_add);
 
 		// Read and verify updated package.json
 		const updated_content = fs.readFileSync(package_json_path, "utf8");
@@ -465,7 +605,7 @@ describe("update_package_json_exports", () => {
 			},
 		};
 
-		update_package_json_exports(package_json_path, new_exports);
+		write_package_json_exports(package_json_path, new_exports);
 
 		const updated_content = fs.readFileSync(package_json_path, "utf8");
 		const updated_package_json = JSON.parse(updated_content);
@@ -483,7 +623,7 @@ describe("update_package_json_exports", () => {
 			JSON.stringify(initial_package_json, null, 2),
 		);
 
-		update_package_json_exports(package_json_path, {
+		write_package_json_exports(package_json_path, {
 			".": { import: "./dist/index.js" },
 		});
 
@@ -493,6 +633,22 @@ describe("update_package_json_exports", () => {
 		expect(updated_content).toContain('  "exports":');
 	});
 
+	it("should preserve tab indentation, key order and final newline", () => {
+		const initial_content =
+			'{\n\t"name": "test-package",\n\t"exports": {},\n\t"scripts": {\n\t\t"build": "tsdown"\n\t}\n}\n';
+		fs.writeFileSync(package_json_path, initial_content);
+
+		write_package_json_exports(package_json_path, {
+			".": { import: "./dist/index.js" },
+		});
+
+		const updated_content = fs.readFileSync(package_json_path, "utf8");
+
+		expect(updated_content).toBe(
+			'{\n\t"name": "test-package",\n\t"exports": {\n\t\t".": {\n\t\t\t"import": "./dist/index.js"\n\t\t}\n\t},\n\t"scripts": {\n\t\t"build": "tsdown"\n\t}\n}\n',
+		);
+	});
+
 	it("should handle package.json with complex structure", () => {
 		const complex_package_json = {
 			name: "complex-package",
@@ -523,7 +679,7 @@ describe("update_package_json_exports", () => {
 			},
 		};
 
-		update_package_json_exports(package_json_path, exports_to_add);
+		write_package_json_exports(package_json_path, exports_to_add);
 
 		const updated_content = fs.readFileSync(package_json_path, "utf8");
 		const updated_package_json = JSON.parse(updated_content);
@@ -537,21 +693,11 @@ describe("update_package_json_exports", () => {
 		expect(updated_package_json.exports).toEqual(exports_to_add);
 	});
 
-	it("should handle errors gracefully", () => {
-		// Mock console.log to capture error output
-		const console_spy = vi.spyOn(console, "log").mockImplementation(() => {});
-
-		// Try to update non-existent file
-		update_package_json_exports("/non/existent/package.json", {});
-
-		// Verify error was logged
-		expect(console_spy).toHaveBeenCalled();
-		const error_call = console_spy.mock.calls.find((call) =>
-			call[0]?.includes?.("Error updating package.json"),
-		);
-		expect(error_call).toBeTruthy();
-
-		console_spy.mockRestore();
+	it("should throw when package.json cannot be read", () => {
+		// generate_exports reports the error as a write-failed diagnostic
+		expect(() =>
+			write_package_json_exports("/non/existent/package.json", {}),
+		).toThrow();
 	});
 });
 
@@ -615,3 +761,818 @@ describe("Edge cases and error scenarios", () => {
 		});
 	});
 });
+
+describe("generate_exports", () => {
+	let temp_dir: string;
+
+	beforeEach(() => {
+		temp_dir = create_temp_directory();
+		create_file(
+			temp_dir,
+			"package.json",
+			'{\n\t"name": "test-package",\n\t"version": "1.0.0"\n}\n',
+		);
+		create_file(temp_dir, "src/index.ts");
+		create_file(temp_dir, "dist/index.js");
+		create_file(temp_dir, "dist/index.d.ts");
+	});
+
+	afterEach(() => {
+		fs.rmSync(temp_dir, { recursive: true, force: true });
+	});
+
+	it("should return the generated exports and their changes", async () => {
+		const result = await generate_exports({ project: temp_dir });
+
+		expect(result.success).toBe(true);
+		expect(result.diagnostics).toEqual([]);
+		expect(result.exports).toEqual({
+			".": { types: "./dist/index.d.ts", import: "./dist/index.js" },
+		});
+		expect(result.changes).toEqual([
+			{ kind: "added", key: ".", next: result.exports["."] },
+		]);
+		expect(result.written).toBe(false);
+		expect(result.paths.source).toBe(path.join(temp_dir, "src"));
+	});
+
+	it("should return a diagnostic instead of exiting on invalid paths", async () => {
+		const exit_spy = vi.spyOn(process, "exit");
+
+		const result = await generate_exports({
+			project: temp_dir,
+			src: "./missing",
+		});
+
+		expect(result.success).toBe(false);
+		expect(result.diagnostics).toEqual([
+			{
+				severity: "error",
+				code: "missing-source",
+				message: "Source directory does not exist.",
+			},
+		]);
+		expect(exit_spy).not.toHaveBeenCalled();
+
+		exit_spy.mockRestore();
+	});
+
+	it("should return a diagnostic on a malformed package.json", async () => {
+		create_file(temp_dir, "package.json", '{ "name": ');
+
+		const result = await generate_exports({ project: temp_dir });
+
+		expect(result.success).toBe(false);
+		expect(result.diagnostics).toEqual([
+			{
+				severity: "error",
+				code: "invalid-package-json",
+				message: expect.stringMatching(/^Unable to read package.json: /),
+			},
+		]);
+	});
+
+	it("should leave package.json untouched when writing is not confirmed", async () => {
+		const confirm = vi.fn(() => false);
+
+		const result = await generate_exports({
+			project: temp_dir,
+			write: true,
+			confirm,
+		});
+
+		expect(confirm).toHaveBeenCalledWith(
+			expect.objectContaining({ changes: result.changes }),
+		);
+		expect(result.written).toBe(false);
+
+		const package_json = JSON.parse(
+			fs.readFileSync(path.join(temp_dir, "package.json"), "utf8"),
+		);
+		expect(package_json.exports).toBeUndefined();
+	});
+
+	it("should write package.json when write option is set", async () => {
+		const result = await generate_exports({ project: temp_dir, write: true });
+
+		expect(result.written).toBe(true);
+
+		const package_json = JSON.parse(
+			fs.readFileSync(path.join(temp_dir, "package.json"), "utf8"),
+		);
+		expect(package_json.exports).toEqual(result.exports);
+	});
+
+	it("should not write package.json in check mode", async () => {
+		const result = await generate_exports({
+			project: temp_dir,
+			write: true,
+			check: true,
+		});
+
+		expect(result.written).toBe(false);
+		expect(result.changes).toHaveLength(1);
+	});
+
+	it("should report the exports left to remove in check mode when no file is found", async () => {
+		for (const file_path of [
+			"src/index.ts",
+			"dist/index.js",
+			"dist/index.d.ts",
+		]) {
+			fs.rmSync(path.join(temp_dir, file_path));
+		}
+		create_file(
+			temp_dir,
+			"package.json",
+			JSON.stringify({
+				name: "test-package",
+				exports: { ".": "./dist/index.js" },
+			}),
+		);
+
+		const result = await generate_exports({ project: temp_dir, check: true });
+
+		expect(result.success).toBe(true);
+		expect(result.diagnostics[0].code).toBe("no-files");
+		expect(result.changes).toEqual([
+			{ kind: "removed", key: ".", previous: "./dist/index.js" },
+		]);
+	});
+
+	it("should apply the project configuration", async () => {
+		create_file(temp_dir, "lib/index.ts");
+		create_file(
+			temp_dir,
+			"xportify.config.json",
+			JSON.stringify({ src: "./lib" }),
+		);
+
+		const result = await generate_exports({ project: temp_dir });
+
+		expect(result.options.src).toBe("./lib");
+		expect(result.paths.config).toBe(
+			path.join(temp_dir, "xportify.config.json"),
+		);
+	});
+
+	it("should read the directories from tsconfig", async () => {
+		create_file(temp_dir, "lib/index.ts");
+		create_file(temp_dir, "build/esm/index.js");
+		create_file(temp_dir, "build/types/index.d.ts");
+		create_file(
+			temp_dir,
+			"tsconfig.json",
+			`{
+				// emitted by tsc
+				"compilerOptions": {
+					"rootDir": "./lib",
+					"outDir": "./build/esm",
+					"declarationDir": "./build/types",
+				},
+			}`,
+		);
+
+		const result = await generate_exports({ project: temp_dir });
+
+		expect(result.success).toBe(true);
+		expect(result.paths.tsconfig).toBe(path.join(temp_dir, "tsconfig.json"));
+		expect(result.exports).toEqual({
+			".": {
+				types: "./build/types/index.d.ts",
+				import: "./build/esm/index.js",
+			},
+		});
+	});
+
+	it("should let options take precedence over tsconfig", async () => {
+		create_file(
+			temp_dir,
+			"tsconfig.json",
+			JSON.stringify({ compilerOptions: { outDir: "./build" } }),
+		);
+
+		const result = await generate_exports({
+			project: temp_dir,
+			dist: "./dist",
+		});
+
+		expect(result.options.dist).toBe("./dist");
+		expect(result.exports).toEqual({
+			".": { types: "./dist/index.d.ts", import: "./dist/index.js" },
+		});
+	});
+
+	it("should report an explicit tsconfig that does not exist", async () => {
+		const result = await generate_exports({
+			project: temp_dir,
+			tsconfig: "tsconfig.build.json",
+		});
+
+		expect(result.success).toBe(false);
+		expect(result.diagnostics[0].code).toBe("invalid-tsconfig");
+	});
+
+	it("should map declared entries to their flattened bundler outputs", async () => {
+		create_file(temp_dir, "src/components/button.ts");
+		create_file(temp_dir, "src/components/card.ts");
+		create_file(temp_dir, "build/button.js");
+		create_file(temp_dir, "build/button.d.ts");
+		create_file(temp_dir, "build/chunk-4f2a.js");
+		create_file(
+			temp_dir,
+			"xportify.config.json",
+			JSON.stringify({
+				dist: "./build",
+				entries: ["components/button.ts", "components/card.ts"],
+			}),
+		);
+
+		const result = await generate_exports({ project: temp_dir });
+
+		expect(result.exports).toEqual({
+			"./components/button": {
+				types: "./build/button.d.ts",
+				import: "./build/button.js",
+			},
+		});
+		expect(result.diagnostics).toEqual([
+			{
+				severity: "warning",
+				code: "missing-entry-output",
+				message: 'No output found for entry "components/card.ts".',
+			},
+		]);
+	});
+
+	it("should map declared entries to outputs named after their subpath", async () => {
+		create_file(temp_dir, "src/components/button.ts");
+		create_file(temp_dir, "dist/button.js");
+		create_file(temp_dir, "dist/button.d.ts");
+
+		const result = await generate_exports({
+			project: temp_dir,
+			entries: { ".": "index.ts", "./button": "components/button.ts" },
+		});
+
+		expect(result.exports).toEqual({
+			".": { types: "./dist/index.d.ts", import: "./dist/index.js" },
+			"./button": { types: "./dist/button.d.ts", import: "./dist/button.js" },
+		});
+		expect(result.diagnostics).toEqual([]);
+	});
+
+	it("should map manifest entries to their outputs", async () => {
+		create_file(temp_dir, "dist/index-4f2a.js");
+		create_file(temp_dir, "dist/index-4f2a.cjs");
+		create_file(temp_dir, "dist/shared-9c1d.js");
+		create_file(
+			temp_dir,
+			"dist/manifest.json",
+			JSON.stringify({
+				"src/index.ts": { file: "index-4f2a.js", isEntry: true },
+				"src/index.ts?cjs": { file: "index-4f2a.cjs", isEntry: false },
+				"_shared-9c1d.js": { file: "shared-9c1d.js" },
+			}),
+		);
+
+		const result = await generate_exports({
+			project: temp_dir,
+			manifest: "./dist/manifest.json",
+			entries: { ".": "index.ts" },
+		});
+
+		expect(result.exports).toEqual({
+			".": { import: "./dist/index-4f2a.js" },
+		});
+	});
+
+	it("should not export files tagged @internal", async () => {
+		create_file(
+			temp_dir,
+			"src/helper.ts",
+			"/**\n * @packageDocumentation\n * @internal\n */\nexport const helper = 1;\n",
+		);
+		create_file(temp_dir, "dist/helper.js");
+		create_file(temp_dir, "src/utils.ts");
+		create_file(temp_dir, "dist/utils.js");
+		create_file(
+			temp_dir,
+			"dist/utils.d.ts",
+			"/** @internal */\n\nexport {};\n",
+		);
+
+		const result = await generate_exports({ project: temp_dir });
+
+		expect(Object.keys(result.exports)).toEqual(["."]);
+	});
+
+	it("should only export files tagged @public in strict mode", async () => {
+		create_file(temp_dir, "src/index.ts", "/** @public */\n\nexport {};\n");
+		create_file(temp_dir, "src/helper.ts");
+		create_file(temp_dir, "dist/helper.js");
+
+		const result = await generate_exports({ project: temp_dir, strict: true });
+
+		expect(Object.keys(result.exports)).toEqual(["."]);
+	});
+
+	it("should fail when a preserved entry targets a missing file", async () => {
+		create_file(
+			temp_dir,
+			"package.json",
+			JSON.stringify({
+				name: "test-package",
+				exports: { "./legacy": "./dist/legacy.js" },
+			}),
+		);
+
+		const result = await generate_exports({
+			project: temp_dir,
+			merge: true,
+			preserve: ["./legacy"],
+			write: true,
+		});
+
+		expect(result.success).toBe(false);
+		expect(result.written).toBe(false);
+		expect(result.diagnostics).toEqual([
+			{
+				severity: "error",
+				code: "missing-target",
+				subpath: "./legacy",
+				message: 'Target "./dist/legacy.js" of "./legacy" does not exist.',
+			},
+		]);
+	});
+
+	it("should fail when several files generate the same subpath", async () => {
+		create_file(temp_dir, "src/foo.ts");
+		create_file(temp_dir, "src/foo/index.ts");
+		create_file(temp_dir, "dist/foo.js");
+		create_file(temp_dir, "dist/foo/index.js");
+
+		const result = await generate_exports({ project: temp_dir, write: true });
+
+		expect(result.success).toBe(false);
+		expect(result.written).toBe(false);
+		expect(result.diagnostics).toEqual([
+			{
+				severity: "error",
+				code: "export-collision",
+				message:
+					'Subpath "./foo" is generated from several files: src/foo.ts, src/foo/index.ts. Pick the one to export in the "collisions" option.',
+			},
+		]);
+	});
+
+	it("should export the configured winner of a collision", async () => {
+		create_file(temp_dir, "src/theme.css.ts");
+		create_file(temp_dir, "dist/theme.css.js");
+		create_file(temp_dir, "dist/theme.css");
+
+		const result = await generate_exports({
+			project: temp_dir,
+			collisions: { "./theme.css": "dist/theme.css" },
+		});
+
+		expect(result.success).toBe(true);
+		expect(result.exports["./theme.css"]).toEqual({
+			import: "./dist/theme.css",
+		});
+	});
+
+	it("should write typesVersions along with the exports", async () => {
+		create_file(temp_dir, "src/utils.ts");
+		create_file(temp_dir, "dist/utils.js");
+		create_file(temp_dir, "dist/utils.d.ts");
+
+		const result = await generate_exports({
+			project: temp_dir,
+			write: true,
+			typesVersions: true,
+		});
+
+		const package_json = JSON.parse(
+			fs.readFileSync(path.join(temp_dir, "package.json"), "utf8"),
+		);
+		expect(result.written).toBe(true);
+		expect(package_json.typesVersions).toEqual({
+			"*": { utils: ["./dist/utils.d.ts"] },
+		});
+
+		// typesVersions alone is rewritten when it goes out of sync
+		fs.writeFileSync(
+			path.join(temp_dir, "package.json"),
+			JSON.stringify({ ...package_json, typesVersions: { "*": {} } }),
+		);
+
+		const second_result = await generate_exports({
+			project: temp_dir,
+			check: true,
+			typesVersions: true,
+		});
+		expect(second_result.changes).toEqual([]);
+		expect(second_result.outdated_fields).toEqual(["typesVersions"]);
+		expect(second_result.diagnostics).toEqual([
+			{
+				severity: "warning",
+				code: "types-versions-mismatch",
+				message: 'typesVersions disagrees with exports for "utils".',
+			},
+		]);
+	});
+
+	it("should warn when an existing typesVersions disagrees with exports", async () => {
+		create_file(
+			temp_dir,
+			"package.json",
+			JSON.stringify({
+				name: "test-package",
+				typesVersions: { "*": { legacy: ["./dist/legacy.d.ts"] } },
+			}),
+		);
+
+		const result = await generate_exports({ project: temp_dir });
+
+		expect(result.outdated_fields).toEqual([]);
+		expect(result.diagnostics).toEqual([
+			{
+				severity: "warning",
+				code: "types-versions-mismatch",
+				message:
+					'typesVersions disagrees with exports for "legacy". Enable the "typesVersions" option to keep it in sync.',
+			},
+		]);
+	});
+
+	it("should warn about typesVersions when writing the exports alone", async () => {
+		create_file(
+			temp_dir,
+			"package.json",
+			JSON.stringify({
+				name: "test-package",
+				typesVersions: { "*": { legacy: ["./dist/legacy.d.ts"] } },
+			}),
+		);
+
+		const result = await generate_exports({ project: temp_dir, write: true });
+
+		expect(result.written).toBe(true);
+		expect(result.diagnostics).toEqual([
+			{
+				severity: "warning",
+				code: "types-versions-mismatch",
+				message:
+					'typesVersions disagrees with exports for "legacy". Enable the "typesVersions" option to keep it in sync.',
+			},
+		]);
+	});
+
+	it("should keep main, module and types in sync with the root export", async () => {
+		create_file(
+			temp_dir,
+			"package.json",
+			JSON.stringify({ name: "test-package", main: "./dist/old.js" }),
+		);
+
+		const check_result = await generate_exports({ project: temp_dir });
+
+		expect(check_result.diagnostics).toEqual([
+			{
+				severity: "warning",
+				code: "entry-fields-mismatch",
+				message:
+					'"main" disagrees with the root export. Enable the "entryFields" option to keep them in sync.',
+			},
+		]);
+
+		const write_result = await generate_exports({
+			project: temp_dir,
+			write: true,
+			entryFields: true,
+		});
+
+		const package_json = JSON.parse(
+			fs.readFileSync(path.join(temp_dir, "package.json"), "utf8"),
+		);
+		expect(write_result.diagnostics).toEqual([]);
+		expect(package_json).toMatchObject({
+			main: "./dist/index.js",
+			module: "./dist/index.js",
+			types: "./dist/index.d.ts",
+		});
+	});
+
+	it("should warn about main, module and types when writing the exports alone", async () => {
+		create_file(
+			temp_dir,
+			"package.json",
+			JSON.stringify({ name: "test-package", main: "./dist/old.js" }),
+		);
+
+		const result = await generate_exports({ project: temp_dir, write: true });
+
+		expect(result.written).toBe(true);
+		expect(result.diagnostics).toEqual([
+			{
+				severity: "warning",
+				code: "entry-fields-mismatch",
+				message:
+					'"main" disagrees with the root export. Enable the "entryFields" option to keep them in sync.',
+			},
+		]);
+	});
+
+	it("should report targets left out of the published package", async () => {
+		create_file(
+			temp_dir,
+			"package.json",
+			JSON.stringify({ name: "test-package", files: ["lib"] }),
+		);
+
+		const check_result = await generate_exports({ project: temp_dir });
+
+		expect(check_result.success).toBe(false);
+		expect(check_result.diagnostics).toContainEqual({
+			severity: "error",
+			code: "unpacked-target",
+			message:
+				'Target "./dist/index.js" of "." would not be included in the published package. Use --fix to add it to "files".',
+		});
+
+		const fix_result = await generate_exports({
+			project: temp_dir,
+			write: true,
+			fix: true,
+		});
+
+		const package_json = JSON.parse(
+			fs.readFileSync(path.join(temp_dir, "package.json"), "utf8"),
+		);
+		expect(fix_result.success).toBe(true);
+		expect(package_json.files).toEqual([
+			"lib",
+			"dist/index.d.ts",
+			"dist/index.js",
+		]);
+	});
+
+	it("should export the files of the configured asset types", async () => {
+		create_file(temp_dir, "dist/tokens.json", "{}");
+		create_file(temp_dir, "dist/icons/home.svg");
+		create_file(temp_dir, "dist/theme.css");
+		create_file(temp_dir, "src/styles/_button.scss");
+
+		const result = await generate_exports({
+			project: temp_dir,
+			assets: [
+				{ include: ["**/*.json", "**/*.svg"], root: "dist", conditions: [] },
+				{
+					include: ["**/*.css"],
+					root: "dist",
+					conditions: ["style", "default"],
+				},
+				{ include: ["**/*.scss"], root: "src", conditions: ["sass"] },
+			],
+		});
+
+		expect(result.diagnostics).toEqual([]);
+		expect(result.exports).toEqual({
+			".": { types: "./dist/index.d.ts", import: "./dist/index.js" },
+			"./tokens.json": "./dist/tokens.json",
+			"./icons/home.svg": "./dist/icons/home.svg",
+			"./theme.css": {
+				style: "./dist/theme.css",
+				default: "./dist/theme.css",
+			},
+			"./styles/_button.scss": { sass: "./src/styles/_button.scss" },
+		});
+	});
+
+	it("should warn when platform variants have no base file", async () => {
+		create_file(temp_dir, "src/rsc.react-server.ts");
+		create_file(temp_dir, "dist/rsc.react-server.js");
+
+		const result = await generate_exports({
+			project: temp_dir,
+			conditions: ["react-server", "browser"],
+		});
+
+		expect(result.exports["./rsc"]).toEqual({
+			"react-server": { import: "./dist/rsc.react-server.js" },
+		});
+		expect(result.diagnostics).toEqual([
+			{
+				severity: "warning",
+				code: "missing-default-variant",
+				message:
+					'Subpath "./rsc" only has variants for "react-server", without a "default" fallback. Add "src/rsc.ts" for the other environments.',
+			},
+		]);
+	});
+
+	it("should list the exported CSS files in sideEffects", async () => {
+		create_file(
+			temp_dir,
+			"package.json",
+			JSON.stringify({ name: "test-package", sideEffects: false }),
+		);
+		create_file(temp_dir, "dist/theme.css");
+		create_file(temp_dir, "dist/polyfills.js");
+
+		const check_result = await generate_exports({ project: temp_dir });
+
+		expect(check_result.diagnostics).toEqual([
+			{
+				severity: "warning",
+				code: "side-effects-mismatch",
+				message:
+					'sideEffects does not cover "./dist/theme.css". Enable the "sideEffects" option to keep it in sync.',
+			},
+		]);
+
+		const write_result = await generate_exports({
+			project: temp_dir,
+			write: true,
+			sideEffects: true,
+			sideEffectFiles: ["./dist/polyfills.js"],
+		});
+
+		const package_json = JSON.parse(
+			fs.readFileSync(path.join(temp_dir, "package.json"), "utf8"),
+		);
+		expect(write_result.diagnostics).toEqual([]);
+		expect(package_json.sideEffects).toEqual([
+			"./dist/theme.css",
+			"./dist/polyfills.js",
+		]);
+	});
+
+	it("should warn about sideEffects when writing the exports alone", async () => {
+		create_file(
+			temp_dir,
+			"package.json",
+			JSON.stringify({ name: "test-package", sideEffects: false }),
+		);
+		create_file(temp_dir, "dist/theme.css");
+
+		const result = await generate_exports({ project: temp_dir, write: true });
+
+		expect(result.written).toBe(true);
+		expect(result.diagnostics).toEqual([
+			{
+				severity: "warning",
+				code: "side-effects-mismatch",
+				message:
+					'sideEffects does not cover "./dist/theme.css". Enable the "sideEffects" option to keep it in sync.',
+			},
+		]);
+	});
+
+	it("should not write sideEffects when there is nothing to list", async () => {
+		const result = await generate_exports({
+			project: temp_dir,
+			write: true,
+			sideEffects: true,
+		});
+
+		const package_json = JSON.parse(
+			fs.readFileSync(path.join(temp_dir, "package.json"), "utf8"),
+		);
+		expect(result.written).toBe(true);
+		expect(result.package_fields).not.toHaveProperty("sideEffects");
+		expect(package_json).not.toHaveProperty("sideEffects");
+	});
+
+	it("should write the import map to its own file with --write", async () => {
+		create_file(temp_dir, "dist/theme.css");
+		const options = {
+			project: temp_dir,
+			importMap: "importmap.json",
+			importMapPrefix: "/assets/test-package",
+		};
+		const import_map_path = path.join(temp_dir, "importmap.json");
+
+		const result = await generate_exports(options);
+
+		const import_map = {
+			imports: {
+				"test-package": "/assets/test-package/dist/index.js",
+				"test-package/theme.css": "/assets/test-package/dist/theme.css",
+			},
+		};
+		expect(result.import_map).toEqual({
+			map: import_map,
+			file_path: import_map_path,
+			outdated: true,
+			written: false,
+		});
+		expect(fs.existsSync(import_map_path)).toBe(false);
+
+		const declined_result = await generate_exports({
+			...options,
+			write: true,
+			confirm: async () => false,
+		});
+
+		expect(declined_result.import_map?.written).toBe(false);
+		expect(fs.existsSync(import_map_path)).toBe(false);
+
+		const write_result = await generate_exports({ ...options, write: true });
+
+		expect(write_result.import_map?.written).toBe(true);
+		expect(JSON.parse(fs.readFileSync(import_map_path, "utf8"))).toEqual(
+			import_map,
+		);
+	});
+
+	it("should write the JSR exports pointing at the sources", async () => {
+		create_file(temp_dir, "src/utils.ts");
+		create_file(temp_dir, "dist/utils.js");
+		create_file(temp_dir, "dist/utils.d.ts");
+		create_file(temp_dir, "dist/theme.css");
+		create_file(
+			temp_dir,
+			"jsr.json",
+			'{\n\t"name": "@scope/test-package",\n\t"version": "1.0.0"\n}\n',
+		);
+
+		const result = await generate_exports({
+			project: temp_dir,
+			write: true,
+			jsr: true,
+		});
+
+		expect(result.diagnostics).toEqual([]);
+		expect(result.jsr?.written).toBe(true);
+		expect(
+			JSON.parse(fs.readFileSync(path.join(temp_dir, "jsr.json"), "utf8")),
+		).toEqual({
+			name: "@scope/test-package",
+			version: "1.0.0",
+			exports: { ".": "./src/index.ts", "./utils": "./src/utils.ts" },
+		});
+	});
+
+	it("should write the JSR exports to a deno.jsonc with comments", async () => {
+		create_file(
+			temp_dir,
+			"deno.jsonc",
+			'{\n\t// published to JSR\n\t"name": "@scope/test-package",\n\t"version": "1.0.0",\n}\n',
+		);
+
+		const result = await generate_exports({
+			project: temp_dir,
+			write: true,
+			jsr: true,
+		});
+
+		expect(result.jsr?.written).toBe(true);
+		expect(fs.readFileSync(path.join(temp_dir, "deno.jsonc"), "utf8")).toBe(
+			'{\n\t// published to JSR\n\t"name": "@scope/test-package",\n\t"version": "1.0.0",\n\t"exports": {\n\t\t".": "./src/index.ts"\n\t},\n}\n',
+		);
+	});
+
+	it("should report a malformed JSR configuration", async () => {
+		create_file(temp_dir, "jsr.json", '{ "name": ');
+
+		const result = await generate_exports({ project: temp_dir });
+
+		expect(result.success).toBe(true);
+		expect(result.diagnostics).toEqual([
+			{
+				severity: "warning",
+				code: "invalid-jsr-config",
+				message: expect.stringMatching(/^Unable to read jsr.json: /),
+			},
+		]);
+
+		const jsr_result = await generate_exports({ project: temp_dir, jsr: true });
+
+		expect(jsr_result.success).toBe(false);
+		expect(jsr_result.diagnostics[0].code).toBe("invalid-jsr-config");
+	});
+
+	it("should warn when JSR and npm subpaths differ", async () => {
+		create_file(
+			temp_dir,
+			"deno.json",
+			JSON.stringify({
+				exports: { ".": "./src/index.ts", "./extra": "./src/extra.ts" },
+			}),
+		);
+
+		const result = await generate_exports({ project: temp_dir });
+
+		expect(result.jsr).toBeUndefined();
+		expect(result.diagnostics).toEqual([
+			{
+				severity: "warning",
+				code: "jsr-subpath-mismatch",
+				message:
+					'JSR and npm subpaths differ: "./extra" is only exported to JSR. Enable the "jsr" option to keep them in sync.',
+			},
+		]);
+	});
+});
@@ -1,7 +1,69 @@
 import fs from "node:fs";
 import path from "node:path";
+import readline from "node:readline/promises";
 import chalk from "chalk";
 import glob from "fast-glob";
+import { read_bundler_manifests } from "../lib/bundler_manifest.js";
+import {
+	ALWAYS_EXCLUDED,
+	type AssetType,
+	DEFAULT_CONFIG,
+	load_config,
+	type ResolvedConfig,
+	resolve_config,
+	type XportifyConfig,
+} from "../lib/config.js";
+import { derive_entry_fields, diff_entry_fields } from "../lib/entry_fields.js";
+import {
+	group_condition_variants,
+	split_condition_suffix,
+} from "../lib/export_conditions.js";
+import {
+	type ExportCandidate,
+	format_export_collision,
+	resolve_export_collisions,
+} from "../lib/exports_collisions.js";
+import {
+	diff_exports,
+	type ExportChange,
+	format_exports_diff,
+	normalize_exports,
+} from "../lib/exports_diff.js";
+import { merge_exports } from "../lib/exports_merge.js";
+import { collapse_export_patterns } from "../lib/exports_patterns.js";
+import { validate_exports } from "../lib/exports_validation.js";
+import { read_file_visibility } from "../lib/file_visibility.js";
+import { generate_import_map, type ImportMap } from "../lib/import_map.js";
+import {
+	diff_jsr_subpaths,
+	find_jsr_config,
+	generate_jsr_exports,
+	type JsrExports,
+	read_jsr_exports,
+} from "../lib/jsr.js";
+import { set_json_fields } from "../lib/package_json.js";
+import {
+	add_files_entries,
+	find_unpacked_targets,
+	list_packed_files,
+} from "../lib/packed_files.js";
+import {
+	find_uncovered_side_effects,
+	merge_side_effects,
+} from "../lib/side_effects.js";
+import { read_tsconfig_layout } from "../lib/tsconfig.js";
+import {
+	diff_types_versions,
+	generate_types_versions,
+} from "../lib/types_versions.js";
+import type {
+	AssetExportEntry,
+	Diagnostic,
+	ExportEntry,
+	ExportMap,
+	FormatConditions,
+	ValidationResult,
+} from "../types.js";
 
 //  ██████╗ ██████╗ ███╗   ███╗███╗   ███╗ █████╗ ███╗   ██╗██████╗
 // ██╔════╝██╔═══██╗████╗ ████║████╗ ████║██╔══██╗████╗  ██║██╔══██╗
@@ -10,82 +72,853 @@ import glob from "fast-glob";
 // ╚██████╗╚██████╔╝██║ ╚═╝ ██║██║ ╚═╝ ██║██║  ██║██║ ╚████║██████╔╝
 //  ╚═════╝ ╚═════╝ ╚═╝     ╚═╝╚═╝     ╚═╝╚═╝  ╚═╝╚═╝  ╚═══╝╚═════╝
 
-type ExtractExportsOptions = {
-	project: string;
-	src: string;
-	dist: string;
-	write: boolean;
+type ExtractExportsOptions = GenerateExportsOptions & {
+	/** Write without asking for confirmation */
+	yes?: boolean;
+};
+
+/**
+ * CLI command: generates the exports, prints them and writes or checks package.json
+ *
+ * Before writing, the differences with package.json are printed and, in a terminal, confirmed.
+ */
+export async function extract_exports(cli_options: ExtractExportsOptions) {
+	let declined = false;
+	// the paths and diagnostics are printed before the confirmation, the later diagnostics after it
+	let printed_diagnostics: number | undefined;
+	const result = await generate_exports({
+		...cli_options,
+		confirm: async (pending) => {
+			print_project_paths(pending.paths);
+			print_diagnostics(pending.diagnostics);
+			printed_diagnostics = pending.diagnostics.length;
+			print_pending_changes(pending);
+
+			const confirmed = cli_options.yes || (await ask_write_confirmation());
+			declined = !confirmed;
+
+			return confirmed;
+		},
+	});
+
+	if (printed_diagnostics === undefined) {
+		print_project_paths(result.paths);
+	}
+	print_diagnostics(result.diagnostics.slice(printed_diagnostics ?? 0));
+
+	if (!result.success) {
+		process.exit(1);
+	}
+
+	if (Object.keys(result.exports).length === 0 && !result.options.check) {
+		return;
+	}
+
+	// the import map file is written by generate_exports along with package.json
+	if (result.import_map?.written) {
+		console.log(
+			chalk.blue("🗺️ Import map written to"),
+			result.import_map.file_path,
+		);
+	} else if (
+		result.import_map !== undefined &&
+		(result.import_map.file_path === undefined || !result.options.write)
+	) {
+		console.log(chalk.green("\n🗺️ Generated import map:"));
+		console.log(JSON.stringify(result.import_map.map, null, 2));
+	}
+
+	// Compare with package.json instead of displaying if --check flag is provided
+	if (result.options.check) {
+		report_exports_changes(result.changes, result.outdated_fields, result.jsr);
+
+		return;
+	}
+
+	// package.json is written by generate_exports if --write flag is provided, once confirmed
+	if (result.options.write) {
+		if (result.jsr?.written) {
+			console.log(
+				chalk.green(
+					`\nSuccessfully updated ${path.basename(result.jsr.file_path)} with JSR exports.`,
+				),
+			);
+		}
+
+		if (result.written) {
+			console.log(
+				chalk.green(
+					"\nSuccessfully updated package.json with exports configuration.",
+				),
+			);
+		} else if (declined) {
+			console.log(chalk.yellow("\npackage.json was left untouched."));
+		} else {
+			console.log(chalk.green("\n✅ package.json exports are up to date."));
+		}
+
+		return;
+	}
+
+	// display the exports object
+	console.log(chalk.green("\n🛠️Generated exports object:"));
+	console.log(
+		JSON.stringify(
+			{ exports: result.exports, ...result.package_fields },
+			null,
+			2,
+		),
+	);
+	console.log(chalk.green(`${Object.keys(result.exports).length} exports`));
+
+	if (result.changes.length > 0 || result.outdated_fields.length > 0) {
+		print_exports_changes(result.changes, result.outdated_fields);
+	}
+	print_jsr_changes(result.jsr);
+}
+
+/**
+ * Prints the changes about to be written to package.json, the JSR configuration and the import map
+ */
+export const print_pending_changes = (pending: GenerateExportsResult) => {
+	if (pending.changes.length > 0 || pending.outdated_fields.length > 0) {
+		print_exports_changes(pending.changes, pending.outdated_fields);
+	}
+	print_jsr_changes(pending.jsr);
+	if (pending.import_map?.outdated && pending.import_map.file_path) {
+		console.log(
+			chalk.blue(
+				`\n📝 ${path.basename(pending.import_map.file_path)} will be updated with the generated import map.`,
+			),
+		);
+	}
+};
+
+/**
+ * Prints the differences between package.json and the generated exports and fields
+ */
+const print_exports_changes = (
+	changes: ExportChange[],
+	outdated_fields: string[],
+) => {
+	console.log(
+		chalk.blue(
+			`\n📝 Changes to package.json (${changes.length + outdated_fields.length} differences):`,
+		),
+	);
+
+	for (const line of format_exports_diff(changes)) {
+		console.log(line);
+	}
+
+	for (const field of outdated_fields) {
+		console.log(chalk.yellow(`  ~ ${field} (out of date)`));
+	}
 };
 
-export function extract_exports(options: ExtractExportsOptions) {
-	const absolute_project_path = check_validation(
-		validate_project_path(options),
-		"📁 Project path:",
+/**
+ * Prints the differences between the JSR configuration and the generated JSR exports, if any
+ */
+const print_jsr_changes = (jsr: GenerateExportsResult["jsr"]) => {
+	if (jsr === undefined || jsr.changes.length === 0) {
+		return;
+	}
+
+	console.log(
+		chalk.blue(
+			`\n📝 Changes to ${path.basename(jsr.file_path)} (${jsr.changes.length} differences):`,
+		),
 	);
 
+	for (const line of format_exports_diff(jsr.changes)) {
+		console.log(line);
+	}
+};
+
+/**
+ * Asks whether to write package.json, only when running in a terminal
+ *
+ * @returns True if confirmed, or when there is no terminal to ask in (e.g. in CI)
+ */
+export const ask_write_confirmation = async (): Promise<boolean> => {
+	if (!process.stdin.isTTY || !process.stdout.isTTY) {
+		return true;
+	}
+
+	const prompt = readline.createInterface({
+		input: process.stdin,
+		output: process.stdout,
+	});
+
+	try {
+		const answer = await prompt.question(
+			chalk.blue("\nWrite these changes to package.json? (y/N) "),
+		);
+
+		return /^y(es)?$/i.test(answer.trim());
+	} finally {
+		prompt.close();
+	}
+};
+
+/**
+ * Prints the resolved project paths
+ */
+const print_project_paths = (paths: GenerateExportsResult["paths"]) => {
+	const labels: [keyof GenerateExportsResult["paths"], string][] = [
+		["project", "📁 Project path:"],
+		["package_json", "📦 Package JSON path:"],
+		["config", "⚙️ Config:"],
+		["tsconfig", "⚙️ tsconfig:"],
+		["source", "📁 Source path:"],
+		["destination", "📁 Destination path:"],
+		["types", "📁 Types path:"],
+	];
+
+	for (const [key, label] of labels) {
+		if (paths[key] !== undefined) {
+			console.log(chalk.blue(label), paths[key]);
+		}
+	}
+};
+
+/**
+ * Prints the warnings and errors reported while generating the exports
+ */
+const print_diagnostics = (diagnostics: Diagnostic[]) => {
+	for (const diagnostic of diagnostics) {
+		if (diagnostic.severity === "error") {
+			console.log(chalk.red(`💥 ${diagnostic.message}`));
+		} else {
+			console.log(chalk.yellow(`⚠️ ${diagnostic.message}`));
+		}
+	}
+};
+
+//  █████╗ ██████╗ ██╗
+// ██╔══██╗██╔══██╗██║
+// ███████║██████╔╝██║
+// ██╔══██║██╔═══╝ ██║
+// ██║  ██║██║     ██║
+// ╚═╝  ╚═╝╚═╝     ╚═╝
+
+/**
+ * Options of the programmatic API, same as the CLI flags
+ */
+export type GenerateExportsOptions = XportifyConfig & {
+	/** Path of the project, relative to the current directory */
+	project: string;
+	/** Path to a configuration file, relative to the current directory */
+	config?: string;
+	/** Called with the pending result before writing package.json, which is left untouched if it returns false */
+	confirm?: (result: GenerateExportsResult) => boolean | Promise<boolean>;
+};
+
+/**
+ * Result of the programmatic API
+ */
+export type GenerateExportsResult = {
+	/** Whether the exports were generated without error */
+	success: boolean;
+	/** The generated export map (merged with package.json in merge mode) */
+	exports: ExportMap;
+	/** Differences between the exports field of package.json and the generated exports */
+	changes: ExportChange[];
+	/** Other package.json fields generated from the exports, such as main, module, types, typesVersions, sideEffects and files */
+	package_fields: Record<string, unknown>;
+	/** The package.json fields of package_fields that differ from the generated ones */
+	outdated_fields: string[];
+	/** The exports of jsr.json, deno.json or deno.jsonc, when the jsr option is enabled and one of them exists */
+	jsr?: {
+		file_path: string;
+		exports: JsrExports;
+		/** Differences between the exports field of the JSR configuration and the generated ones */
+		changes: ExportChange[];
+		/** Whether the JSR configuration was updated */
+		written: boolean;
+	};
+	/** The browser import map, when the importMap option is enabled */
+	import_map?: {
+		map: ImportMap;
+		/** The absolute path of the import map file, unless the import map is only printed */
+		file_path?: string;
+		/** Whether the import map file differs from the generated import map */
+		outdated: boolean;
+		/** Whether the import map file was updated */
+		written: boolean;
+	};
+	/** Whether package.json was updated */
+	written: boolean;
+	/** Warnings and errors reported while generating the exports */
+	diagnostics: Diagnostic[];
+	/** Options resolved from the configuration and the given options */
+	options: ResolvedConfig;
+	/** Absolute paths resolved for the project */
+	paths: {
+		project?: string;
+		package_json?: string;
+		config?: string;
+		tsconfig?: string;
+		source?: string;
+		destination?: string;
+		types?: string;
+	};
+};
+
+/**
+ * Generates the exports field of a project without printing anything or exiting the process
+ *
+ * @param options - The project path and the options overriding the project configuration
+ * @returns The generated exports, their differences with package.json and the diagnostics
+ * @example
+ * const result = await generate_exports({ project: '.', write: true })
+ * if (!result.success) console.error(result.diagnostics)
+ */
+export async function generate_exports(
+	options: GenerateExportsOptions,
+): Promise<GenerateExportsResult> {
+	const result: GenerateExportsResult = {
+		success: false,
+		exports: {},
+		changes: [],
+		package_fields: {},
+		outdated_fields: [],
+		written: false,
+		diagnostics: [],
+		options: resolve_config({}, options),
+		paths: {},
+	};
+
+	// errors can occur after the exports were validated, while writing or reading other files
+	const fail = (code: string, message: string) => {
+		result.diagnostics.push({ severity: "error", code, message });
+		result.success = false;
+
+		return result;
+	};
+
+	const project_validation = validate_project_path(options);
+	if (!project_validation.validated) {
+		return fail("invalid-project", project_validation.error);
+	}
+	const absolute_project_path = project_validation.data;
+	result.paths.project = absolute_project_path;
+
 	// check if the package.json file exists
-	const package_json_path = check_validation(
-		validate_package_json(absolute_project_path),
-		"📦 Package JSON path:",
+	const package_json_validation = validate_package_json(absolute_project_path);
+	if (!package_json_validation.validated) {
+		return fail("missing-package-json", package_json_validation.error);
+	}
+	const package_json_path = package_json_validation.data;
+	result.paths.package_json = package_json_path;
+
+	const package_json_read = read_package_json(package_json_path);
+	if (!package_json_read.validated) {
+		return fail("invalid-package-json", package_json_read.error);
+	}
+	const package_json = package_json_read.data;
+
+	// load the project configuration, given options take precedence over it
+	const config_validation = await load_config(
+		absolute_project_path,
+		options.config,
+	);
+	if (!config_validation.validated) {
+		return fail("invalid-config", config_validation.error);
+	}
+	result.paths.config = config_validation.data.source;
+
+	// infer the directories from tsconfig, the configuration and given options take precedence over it
+	const tsconfig_validation = validate_tsconfig(
+		absolute_project_path,
+		options.tsconfig ?? config_validation.data.config.tsconfig,
+	);
+	if (!tsconfig_validation.validated) {
+		return fail("invalid-tsconfig", tsconfig_validation.error);
+	}
+	result.paths.tsconfig = tsconfig_validation.data.source;
+	result.options = resolve_config(
+		tsconfig_validation.data.config,
+		config_validation.data.config,
+		options,
 	);
 
-	const source_path = check_validation(
-		validate_source_path(absolute_project_path, options),
-		"📁 Source path:",
+	const source_validation = validate_source_path(
+		absolute_project_path,
+		result.options,
 	);
+	if (!source_validation.validated) {
+		return fail("missing-source", source_validation.error);
+	}
+	const source_path = source_validation.data;
+	result.paths.source = source_path;
 
-	const destination_path = check_validation(
-		validate_destination_path(absolute_project_path, options),
-		"📁 Destination path:",
+	const destination_validation = validate_destination_path(
+		absolute_project_path,
+		result.options,
 	);
+	if (!destination_validation.validated) {
+		return fail("missing-destination", destination_validation.error);
+	}
+	const destination_path = destination_validation.data;
+	result.paths.destination = destination_path;
 
-	// use fast-glob to find all JavaScript and TypeScript files in source
-	const source_file_paths = glob
-		.sync(["**/*.ts", "**/*.tsx", "**/*.js", "**/*.d.ts"], {
+	const types_validation = validate_types_path(
+		absolute_project_path,
+		result.options,
+	);
+	if (!types_validation.validated) {
+		return fail("missing-types", types_validation.error);
+	}
+	const types_path = types_validation.data;
+	result.paths.types = types_path;
+
+	const entry_mode = is_entry_mode(result.options);
+	let source_file_paths: string[] = [];
+	let declared_entries: DeclaredEntry[] = [];
+
+	if (entry_mode) {
+		// only export the declared entries, wherever the bundler emitted them
+		const entries_validation = collect_declared_entries(
+			absolute_project_path,
+			source_path,
+			destination_path,
+			result.options,
+		);
+		if (!entries_validation.validated) {
+			return fail("invalid-manifest", entries_validation.error);
+		}
+		declared_entries = entries_validation.data;
+	} else {
+		// use fast-glob to find all JavaScript and TypeScript files in source
+		source_file_paths = glob.sync(result.options.include, {
 			cwd: source_path,
 			absolute: false,
-			ignore: [
-				"**/node_modules/**",
-				"**/dist/**",
-				"**/*.stories.*",
-				"**/stories/**",
-				"**/vite-env.d.ts",
-			],
-		})
-		.filter((file) => !file.includes("stories"));
-
-	// Find CSS files in destination directory
-	const css_file_paths = glob
-		.sync(["**/*.css"], {
-			cwd: destination_path,
-			absolute: false,
-			ignore: ["**/node_modules/**"],
-		})
-		.filter((file) => !file.includes("stories"));
+			ignore: [...ALWAYS_EXCLUDED, ...result.options.exclude],
+		});
+	}
 
-	const all_file_paths = [...source_file_paths, ...css_file_paths];
+	// Find the asset files (CSS files of the destination directory by default)
+	const asset_files = find_asset_files(
+		result.options.assets,
+		source_path,
+		destination_path,
+		result.options.exclude,
+	);
+
+	const all_file_paths = [
+		...source_file_paths,
+		...declared_entries.map((entry) => entry.file_path),
+		...asset_files.map((asset_file) => asset_file.file_path),
+	];
 
 	if (all_file_paths.length === 0) {
-		console.log(chalk.red("No JavaScript/TypeScript/CSS files found."));
+		result.diagnostics.push({
+			severity: "warning",
+			code: "no-files",
+			message: "No JavaScript/TypeScript/asset files found.",
+		});
+		result.success = true;
+
+		// the exports of package.json are out of date when nothing is left to export
+		if (result.options.check) {
+			result.changes = diff_exports(package_json.exports, result.exports);
+		}
 
-		return;
+		return result;
 	}
 
-	const package_exports = generate_exports_object(
-		source_file_paths,
-		css_file_paths,
-		destination_path,
+	const output_layout = {
+		project_path: absolute_project_path,
+		source_path,
+		types_path,
+	};
+	const candidates = entry_mode
+		? collect_entry_export_candidates(
+				declared_entries,
+				asset_files,
+				destination_path,
+				output_layout,
+			)
+		: collect_export_candidates(
+				source_file_paths,
+				asset_files,
+				destination_path,
+				output_layout,
+				{ strict: result.options.strict },
+				result.options.conditions,
+			);
+
+	// Fail when several files generate the same subpath, unless a winner is configured
+	const { exports: explicit_exports, collisions } = resolve_export_collisions(
+		candidates,
+		result.options.collisions,
 	);
+	if (collisions.length > 0) {
+		for (const collision of collisions) {
+			result.diagnostics.push({
+				severity: "error",
+				code: "export-collision",
+				message: format_export_collision(collision),
+			});
+		}
 
-	// display the exports object
-	console.log(chalk.green("\n🛠️Generated exports object:"));
-	console.log(JSON.stringify({ exports: package_exports }, null, 2));
-	console.log(chalk.green(`${Object.keys(package_exports).length} exports`));
+		return result;
+	}
+
+	// Warn when the variants of a subpath have no base file, the subpath resolving under their conditions only
+	for (const candidate of candidates) {
+		const { base_file_path, condition } = split_condition_suffix(
+			candidate.file_path,
+			result.options.conditions,
+		);
+
+		if (
+			condition !== undefined &&
+			typeof candidate.entry === "object" &&
+			candidate.entry !== null &&
+			Object.keys(candidate.entry).every((key) =>
+				result.options.conditions.includes(key),
+			)
+		) {
+			result.diagnostics.push({
+				severity: "warning",
+				code: "missing-default-variant",
+				message: `Subpath "${candidate.export_path}" only has variants for ${Object.keys(
+					candidate.entry,
+				)
+					.map((key) => `"${key}"`)
+					.join(
+						", ",
+					)}, without a "default" fallback. Add "${base_file_path}" for the other environments.`,
+			});
+		}
+	}
+
+	for (const entry of declared_entries) {
+		if (!(entry.export_path in explicit_exports)) {
+			result.diagnostics.push({
+				severity: "warning",
+				code: "missing-entry-output",
+				message: `No output found for entry "${entry.file_path}".`,
+			});
+		}
+	}
+
+	// Collapse uniform directories into subpath patterns
+	const generated_exports = result.options.patterns
+		? collapse_export_patterns(explicit_exports, absolute_project_path)
+		: explicit_exports;
+
+	const current_exports = package_json.exports;
+
+	// Keep the hand-written entries of package.json in merge mode
+	result.exports = result.options.merge
+		? merge_exports(current_exports, generated_exports, result.options.preserve)
+		: generated_exports;
+
+	result.changes = diff_exports(current_exports, result.exports);
+
+	// Check the targets and conditions against the resolution rules of Node.js
+	const export_diagnostics = validate_exports(
+		result.exports,
+		absolute_project_path,
+	);
+	if (export_diagnostics.length > 0) {
+		result.diagnostics.push(...export_diagnostics);
+
+		return result;
+	}
+
+	// Check that npm would pack every target, adding the missing ones to "files" with --fix
+	let unpacked_targets = find_unpacked_targets(
+		result.exports,
+		absolute_project_path,
+		list_packed_files(absolute_project_path, package_json),
+	);
+	if (
+		unpacked_targets.length > 0 &&
+		result.options.fix &&
+		Array.isArray(package_json.files)
+	) {
+		const files = add_files_entries(package_json.files, unpacked_targets);
+		result.package_fields.files = files;
+
+		unpacked_targets = find_unpacked_targets(
+			result.exports,
+			absolute_project_path,
+			list_packed_files(absolute_project_path, { ...package_json, files }),
+		);
+	}
+	if (unpacked_targets.length > 0) {
+		for (const { subpath, target } of unpacked_targets) {
+			result.diagnostics.push({
+				severity: "error",
+				code: "unpacked-target",
+				message: `Target "${target}" of "${subpath}" would not be included in the published package.${Array.isArray(package_json.files) && !result.options.fix ? ' Use --fix to add it to "files".' : ' Check the "files" field and the .npmignore and .gitignore files.'}`,
+			});
+		}
+
+		return result;
+	}
+
+	result.success = true;
+
+	// Generate the fields kept in sync with the exports
+	const types_versions = generate_types_versions(result.exports);
+	if (result.options.typesVersions) {
+		result.package_fields.typesVersions = types_versions;
+	}
+	const entry_fields = derive_entry_fields(result.exports, package_json);
+	if (result.options.entryFields && entry_fields !== undefined) {
+		Object.assign(result.package_fields, entry_fields);
+	}
+	const side_effect_files = [
+		...asset_files
+			.filter((asset_file) => asset_file.file_path.endsWith(".css"))
+			.map(
+				(asset_file) =>
+					`./${to_project_file_path(path.join(asset_file.root_path, asset_file.file_path), absolute_project_path)}`,
+			),
+		...result.options.sideEffectFiles,
+	];
+	if (result.options.sideEffects) {
+		const side_effects = merge_side_effects(
+			package_json.sideEffects,
+			side_effect_files,
+			absolute_project_path,
+		);
+
+		if (side_effects !== undefined) {
+			result.package_fields.sideEffects = side_effects;
+		}
+	}
+
+	// Generate the JSR exports from the same source files, pointing at the sources
+	const jsr_config_path = find_jsr_config(absolute_project_path);
+	let current_jsr_exports: unknown;
+	if (jsr_config_path !== undefined) {
+		const jsr_exports_read = read_jsr_exports(jsr_config_path);
+
+		if (jsr_exports_read.validated) {
+			current_jsr_exports = jsr_exports_read.data;
+		} else if (result.options.jsr) {
+			return fail("invalid-jsr-config", jsr_exports_read.error);
+		} else {
+			// the JSR configuration is only compared with the exports, so it does not fail the generation
+			result.diagnostics.push({
+				severity: "warning",
+				code: "invalid-jsr-config",
+				message: jsr_exports_read.error,
+			});
+		}
+	}
+	if (result.options.jsr && jsr_config_path === undefined) {
+		result.diagnostics.push({
+			severity: "warning",
+			code: "missing-jsr-config",
+			message:
+				"No jsr.json, deno.json or deno.jsonc found. Create one with the name and version of the package to publish it to JSR.",
+		});
+	} else if (result.options.jsr && jsr_config_path !== undefined) {
+		const asset_file_paths = new Set(
+			asset_files.map((asset_file) =>
+				to_project_file_path(
+					path.join(asset_file.root_path, asset_file.file_path),
+					absolute_project_path,
+				),
+			),
+		);
+		const jsr_exports = generate_jsr_exports(
+			candidates.filter(
+				(candidate) => !asset_file_paths.has(candidate.file_path),
+			),
+			result.options.collisions,
+		);
+
+		result.jsr = {
+			file_path: jsr_config_path,
+			exports: jsr_exports,
+			changes: diff_exports(current_jsr_exports, jsr_exports),
+			written: false,
+		};
+	}
+
+	// Warn when JSR and npm do not export the same subpaths
+	const jsr_exports = result.jsr?.exports ?? current_jsr_exports;
+	if (jsr_exports !== undefined) {
+		const { npm_only, jsr_only } = diff_jsr_subpaths(
+			result.exports,
+			normalize_exports(jsr_exports),
+		);
+		const mismatches = [
+			...npm_only.map((subpath) => `"${subpath}" is only exported to npm`),
+			...jsr_only.map((subpath) => `"${subpath}" is only exported to JSR`),
+		];
+
+		if (mismatches.length > 0) {
+			result.diagnostics.push({
+				severity: "warning",
+				code: "jsr-subpath-mismatch",
+				message: `JSR and npm subpaths differ: ${mismatches.join(", ")}.${result.options.jsr ? "" : ' Enable the "jsr" option to keep them in sync.'}`,
+			});
+		}
+	}
+
+	// Generate the browser import map, written to its own file along with package.json
+	if (result.options.importMap !== false) {
+		if (typeof package_json.name !== "string" || package_json.name === "") {
+			result.diagnostics.push({
+				severity: "warning",
+				code: "missing-package-name",
+				message:
+					"The import map maps package specifiers and requires a name in package.json.",
+			});
+		} else {
+			const { import_map, skipped_patterns } = generate_import_map(
+				result.exports,
+				package_json.name,
+				result.options.importMapPrefix,
+				result.options.importMapConditions,
+			);
+			const file_path =
+				typeof result.options.importMap === "string"
+					? path.resolve(absolute_project_path, result.options.importMap)
+					: undefined;
+			result.import_map = {
+				map: import_map,
+				file_path,
+				outdated:
+					file_path !== undefined &&
+					(!fs.existsSync(file_path) ||
+						fs.readFileSync(file_path, "utf8") !==
+							serialize_import_map(import_map)),
+				written: false,
+			};
+
+			for (const subpath of skipped_patterns) {
+				result.diagnostics.push({
+					severity: "warning",
+					code: "import-map-pattern",
+					message: `Pattern "${subpath}" was left out of the import map, which only maps prefixes ending with "/".`,
+				});
+			}
+		}
+	}
+
+	result.outdated_fields = Object.keys(result.package_fields).filter(
+		(field) =>
+			JSON.stringify(package_json[field]) !==
+			JSON.stringify(result.package_fields[field]),
+	);
+
+	// Write to package.json, the JSR configuration and the import map once confirmed, unless only checking
+	const has_package_changes =
+		result.changes.length > 0 || result.outdated_fields.length > 0;
+	const has_jsr_changes =
+		result.jsr !== undefined && result.jsr.changes.length > 0;
+	const has_import_map_changes = result.import_map?.outdated === true;
+	if (
+		result.options.write &&
+		!result.options.check &&
+		(has_package_changes || has_jsr_changes || has_import_map_changes) &&
+		(options.confirm === undefined || (await options.confirm(result)))
+	) {
+		if (has_package_changes) {
+			try {
+				write_package_json_exports(
+					package_json_path,
+					result.exports,
+					result.package_fields,
+				);
+				result.written = true;
+			} catch (error) {
+				return fail(
+					"write-failed",
+					`Error updating package.json: ${(error as Error).message}`,
+				);
+			}
+		}
+
+		if (result.jsr !== undefined && has_jsr_changes) {
+			try {
+				write_package_json_exports(result.jsr.file_path, result.jsr.exports);
+				result.jsr.written = true;
+			} catch (error) {
+				return fail(
+					"write-failed",
+					`Error updating ${path.basename(result.jsr.file_path)}: ${(error as Error).message}`,
+				);
+			}
+		}
 
-	// Write to package.json if --write flag is provided
-	if (options.write) {
-		update_package_json_exports(package_json_path, package_exports);
+		if (result.import_map?.file_path !== undefined && has_import_map_changes) {
+			try {
+				fs.writeFileSync(
+					result.import_map.file_path,
+					serialize_import_map(result.import_map.map),
+				);
+				result.import_map.written = true;
+			} catch (error) {
+				return fail(
+					"write-failed",
+					`Error writing the import map: ${(error as Error).message}`,
+				);
+			}
+		}
+	}
+
+	// Warn when main, module or types do not match the root export
+	const mismatched_fields =
+		entry_fields === undefined
+			? []
+			: diff_entry_fields(package_json, entry_fields);
+	if (
+		!(result.written && result.options.entryFields) &&
+		mismatched_fields.length > 0
+	) {
+		result.diagnostics.push({
+			severity: "warning",
+			code: "entry-fields-mismatch",
+			message: `${mismatched_fields.map((field) => `"${field}"`).join(", ")} ${mismatched_fields.length > 1 ? "disagree" : "disagrees"} with the root export.${result.options.entryFields ? "" : ' Enable the "entryFields" option to keep them in sync.'}`,
+		});
+	}
+
+	// Warn when typesVersions is not in sync with the exports
+	const mismatched_subpaths = diff_types_versions(
+		package_json.typesVersions,
+		types_versions,
+	);
+	if (
+		package_json.typesVersions !== undefined &&
+		!(result.written && result.options.typesVersions) &&
+		mismatched_subpaths.length > 0
+	) {
+		result.diagnostics.push({
+			severity: "warning",
+			code: "types-versions-mismatch",
+			message: `typesVersions disagrees with exports for ${mismatched_subpaths.map((subpath) => `"${subpath}"`).join(", ")}.${result.options.typesVersions ? "" : ' Enable the "typesVersions" option to keep it in sync.'}`,
+		});
+	}
+
+	// Warn when tree-shaking could drop side-effectful files
+	const uncovered_side_effects = find_uncovered_side_effects(
+		package_json.sideEffects,
+		side_effect_files,
+		absolute_project_path,
+	);
+	if (
+		!(result.written && result.options.sideEffects) &&
+		uncovered_side_effects.length > 0
+	) {
+		result.diagnostics.push({
+			severity: "warning",
+			code: "side-effects-mismatch",
+			message: `sideEffects does not cover ${uncovered_side_effects.map((file) => `"${file}"`).join(", ")}.${result.options.sideEffects ? "" : ' Enable the "sideEffects" option to keep it in sync.'}`,
+		});
 	}
+
+	return result;
 }
 
 // ██╗   ██╗ █████╗ ██╗     ██╗██████╗  █████╗ ████████╗██╗ ██████╗ ███╗   ██╗
@@ -95,36 +928,11 @@ export function extract_exports(options: ExtractExportsOptions) {
 //  ╚████╔╝ ██║  ██║███████╗██║██████╔╝██║  ██║   ██║   ██║╚██████╔╝██║ ╚████║
 //   ╚═══╝  ╚═╝  ╚═╝╚══════╝╚═╝╚═════╝ ╚═╝  ╚═╝   ╚═╝   ╚═╝ ╚═════╝ ╚═╝  ╚═══╝
 
-/**
- * Result of a validation
- */
-export type ValidationResult<TValue> =
-	| { validated: true; data: TValue }
-	| { validated: false; error: string };
-
-/**
- * Check if the validation is valid
- */
-const check_validation = <TResult>(
-	validation: ValidationResult<TResult>,
-	prefix_message?: string,
-) => {
-	if (!validation.validated) {
-		console.log(chalk.red(`💥 ${validation.error}`));
-		process.exit(1);
-	}
-
-	if (prefix_message !== undefined) {
-		console.log(chalk.blue(prefix_message), validation.data);
-	}
-	return validation.data;
-};
-
 /**
  * Validate the project path
  */
 function validate_project_path(
-	options: ExtractExportsOptions,
+	options: Pick<ExtractExportsOptions, "project">,
 ): ValidationResult<string> {
 	const project_path = options.project;
 
@@ -168,7 +976,7 @@ function validate_package_json(
  */
 function validate_source_path(
 	absolute_project_path: string,
-	options: ExtractExportsOptions,
+	options: Pick<ResolvedConfig, "src">,
 ): ValidationResult<string> {
 	const source_path = path.resolve(absolute_project_path, options.src);
 
@@ -176,23 +984,172 @@ function validate_source_path(
 		return { validated: false, error: "Source directory does not exist." };
 	}
 
-	return { validated: true, data: source_path };
-}
+	return { validated: true, data: source_path };
+}
+
+/**
+ * Validate the destination path
+ */
+function validate_destination_path(
+	absolute_project_path: string,
+	options: Pick<ResolvedConfig, "dist">,
+): ValidationResult<string> {
+	const destination_path = path.resolve(absolute_project_path, options.dist);
+
+	if (!fs.existsSync(destination_path)) {
+		return { validated: false, error: "Destination directory does not exist." };
+	}
+
+	return { validated: true, data: destination_path };
+}
+
+/**
+ * Validate the declaration path, which defaults to the destination path
+ */
+function validate_types_path(
+	absolute_project_path: string,
+	options: Pick<ResolvedConfig, "dist" | "types">,
+): ValidationResult<string> {
+	const types_path = path.resolve(
+		absolute_project_path,
+		options.types ?? options.dist,
+	);
+
+	if (!fs.existsSync(types_path)) {
+		return { validated: false, error: "Types directory does not exist." };
+	}
+
+	return { validated: true, data: types_path };
+}
+
+/**
+ * Whether the exports are generated from declared entries instead of mirroring the source tree
+ */
+const is_entry_mode = (
+	options: Pick<ResolvedConfig, "entries" | "manifest">,
+): boolean => {
+	return Object.keys(options.entries).length > 0 || options.manifest.length > 0;
+};
+
+/**
+ * Collects the declared entries and the outputs listed for them by the bundler manifests
+ *
+ * Without explicit entries, every entry point of the manifests is exported.
+ *
+ * @example
+ * collect_declared_entries('/path/to/project', '/path/to/project/src', '/path/to/project/dist', { entries: { './button': 'components/button.ts' }, manifest: [] })
+ * // { validated: true, data: [{ export_path: './button', file_path: 'components/button.ts', output_paths: undefined }] }
+ */
+function collect_declared_entries(
+	absolute_project_path: string,
+	source_path: string,
+	destination_path: string,
+	options: Pick<ResolvedConfig, "entries" | "manifest">,
+): ValidationResult<DeclaredEntry[]> {
+	const manifest_paths = (
+		Array.isArray(options.manifest) ? options.manifest : [options.manifest]
+	).map((manifest_path) => path.resolve(absolute_project_path, manifest_path));
+
+	const outputs_validation = read_bundler_manifests(
+		manifest_paths,
+		absolute_project_path,
+		destination_path,
+	);
+	if (!outputs_validation.validated) {
+		return outputs_validation;
+	}
+	const entry_outputs = outputs_validation.data;
+
+	const to_file_path = (file_path: string) =>
+		path
+			.relative(source_path, path.resolve(source_path, file_path))
+			.split(path.sep)
+			.join("/");
+
+	let declared: [string | undefined, string][] = Array.isArray(options.entries)
+		? options.entries.map((file_path) => [undefined, file_path])
+		: Object.entries(options.entries);
+
+	if (declared.length === 0) {
+		declared = [...entry_outputs.keys()]
+			.sort()
+			.map((source_file_path) => [undefined, source_file_path]);
+	}
+
+	const entries = declared.map(([export_path, file_path]) => {
+		const relative_file_path = to_file_path(file_path);
+
+		return {
+			export_path: export_path ?? generate_export_path(relative_file_path),
+			file_path: relative_file_path,
+			output_paths: entry_outputs.get(
+				path.resolve(source_path, relative_file_path),
+			),
+		};
+	});
+
+	return { validated: true, data: entries };
+}
+
+/**
+ * Validate the tsconfig and infer the source, destination and declaration directories from it
+ *
+ * A missing tsconfig is not an error unless its path was explicitly configured.
+ *
+ * @example
+ * validate_tsconfig('/path/to/project') // with { "compilerOptions": { "rootDir": "lib", "outDir": "build" } }
+ * // { validated: true, data: { config: { src: './lib', dist: './build' }, source: '/path/to/project/tsconfig.json' } }
+ */
+function validate_tsconfig(
+	absolute_project_path: string,
+	tsconfig_option: string | undefined,
+): ValidationResult<{ config: XportifyConfig; source?: string }> {
+	const tsconfig_path = path.resolve(
+		absolute_project_path,
+		tsconfig_option ?? DEFAULT_CONFIG.tsconfig,
+	);
+
+	if (!fs.existsSync(tsconfig_path)) {
+		if (tsconfig_option !== undefined) {
+			return {
+				validated: false,
+				error: `tsconfig "${tsconfig_path}" does not exist.`,
+			};
+		}
+
+		return { validated: true, data: { config: {} } };
+	}
+
+	const layout_validation = read_tsconfig_layout(tsconfig_path);
+	if (!layout_validation.validated) {
+		return layout_validation;
+	}
+	const { root_dir, out_dir, declaration_dir } = layout_validation.data;
+
+	const to_project_path = (directory: string | undefined) => {
+		if (directory === undefined) {
+			return undefined;
+		}
 
-/**
- * Validate the destination path
- */
-function validate_destination_path(
-	absolute_project_path: string,
-	options: ExtractExportsOptions,
-): ValidationResult<string> {
-	const destination_path = path.resolve(absolute_project_path, options.dist);
+		const relative_path = path
+			.relative(absolute_project_path, directory)
+			.split(path.sep)
+			.join("/");
 
-	if (!fs.existsSync(destination_path)) {
-		return { validated: false, error: "Destination directory does not exist." };
-	}
+		return relative_path === "" ? "." : `./${relative_path}`;
+	};
 
-	return { validated: true, data: destination_path };
+	return {
+		validated: true,
+		data: {
+			config: {
+				src: to_project_path(root_dir),
+				dist: to_project_path(out_dir),
+				types: to_project_path(declaration_dir),
+			},
+			source: tsconfig_path,
+		},
+	};
 }
 
 //  ██████╗ ███████╗███╗   ██╗███████╗██████╗  █████╗ ████████╗███████╗    ███████╗██╗  ██╗██████╗  ██████╗ ██████╗ ████████╗███████╗
@@ -202,13 +1159,6 @@ function validate_destination_path(
 // ╚██████╔╝███████╗██║ ╚████║███████╗██║  ██║██║  ██║   ██║   ███████╗    ███████╗██╔╝ ██╗██║     ╚██████╔╝██║  ██║   ██║   ███████║
 //  ╚═════╝ ╚══════╝╚═╝  ╚═══╝╚══════╝╚═╝  ╚═╝╚═╝  ╚═╝   ╚═╝   ╚══════╝    ╚══════╝╚═╝  ╚═╝╚═╝      ╚═════╝ ╚═╝  ╚═╝   ╚═╝   ╚══════╝
 
-type ExportEntry = {
-	import?: string;
-	types?: string;
-};
-
-type ExportMap = Record<string, ExportEntry>;
-
 /**
  * Determines if a source file is an index file (root or nested)
  *
@@ -290,42 +1240,175 @@ const generate_export_path = (file_path: string): string => {
 /**
  * Processes a single TypeScript file and creates its export entry if applicable
  *
+ * When a CommonJS build sits next to the ESM build (`.cjs`, or `.js` alongside `.mjs`),
+ * the entry is split into nested `import` and `require` conditions. A file whose name ends with
+ * a custom condition (e.g. `client.browser.ts`) is a platform variant of the base subpath.
+ *
  * @param file_path - The relative path of the source file
  * @param destination_path - The path to the compiled output directory
- * @returns Export entry or null if file should not be exported
+ * @param layout - The project and declaration paths
+ * @param visibility - The visibility rules, if file-level JSDoc tags are respected
+ * @param conditions - The custom conditions matched by file-name suffixes
+ * @returns Export entry, with its condition for platform variants, or null if file should not be exported
  * @example
  * process_typescript_file('components/Button/index.tsx', './dist')
  * // { import: './dist/components/Button/index.js', types: './dist/components/Button/index.d.ts' }
+ *
+ * process_typescript_file('utils/helper.ts', './dist') // with helper.js and helper.cjs
+ * // {
+ * //   import: { types: './dist/utils/helper.d.ts', default: './dist/utils/helper.js' },
+ * //   require: { types: './dist/utils/helper.d.cts', default: './dist/utils/helper.cjs' },
+ * // }
+ *
+ * process_typescript_file('client.browser.ts', './dist', layout, undefined, ['browser'])
+ * // { export_path: './client', entry: { types: './dist/client.browser.d.ts', import: './dist/client.browser.js' }, condition: 'browser' }
  */
 const process_typescript_file = (
 	file_path: string,
 	destination_path: string,
-): { export_path: string; entry: ExportEntry } | null => {
-	const import_path = find_compiled_js_file(file_path, destination_path);
-	const types_path = find_compiled_types_file(file_path, destination_path);
+	layout: Required<OutputLayout>,
+	visibility?: VisibilityOptions,
+	conditions: string[] = [],
+): { export_path: string; entry: ExportEntry; condition?: string } | null => {
+	const outputs = find_compiled_outputs(file_path, destination_path, layout);
+	const { base_file_path, condition } = split_condition_suffix(
+		file_path,
+		conditions,
+	);
 
-	const has_import = import_path !== undefined;
-	const has_types = types_path !== undefined;
+	const has_import = outputs.esm !== undefined || outputs.cjs !== undefined;
+	const has_types =
+		outputs.esm_types !== undefined || outputs.cjs_types !== undefined;
 
-	if (!should_export_file(has_import, has_types, file_path)) {
+	if (!should_export_file(has_import, has_types, base_file_path)) {
 		return null;
 	}
 
-	const export_path = generate_export_path(file_path);
-	const export_entry: ExportEntry = {
-		types: types_path,
-		import: import_path,
-	};
+	if (
+		visibility !== undefined &&
+		!is_visible_file(file_path, outputs, layout, visibility)
+	) {
+		return null;
+	}
+
+	const export_path = generate_export_path(base_file_path);
+	const entry = to_export_entry(outputs);
+
+	return condition === undefined
+		? { export_path, entry }
+		: { export_path, entry, condition };
+};
+
+/**
+ * Visibility rules applied to the source files, based on their file-level JSDoc tags
+ */
+type VisibilityOptions = {
+	/** Only export the files tagged `@public` */
+	strict: boolean;
+};
+
+/**
+ * Determines if a source file is visible according to the `@internal` or `@public` tag
+ * of its file-level JSDoc, read in the source file, otherwise in its declaration file
+ *
+ * @param file_path - The relative path of the source file
+ * @param outputs - The compiled outputs of the source file
+ * @param layout - The project, source and declaration paths
+ * @param visibility - The visibility rules
+ * @returns False for internal files, and for untagged files in strict mode
+ * @example
+ * is_visible_file('utils/helper.ts', outputs, layout, { strict: false }) // false with @internal
+ */
+const is_visible_file = (
+	file_path: string,
+	outputs: CompiledOutputs,
+	layout: Required<OutputLayout>,
+	visibility: VisibilityOptions,
+): boolean => {
+	const declaration_path = outputs.esm_types ?? outputs.cjs_types;
+	const file_visibility =
+		read_file_visibility(path.join(layout.source_path, file_path)) ??
+		(declaration_path === undefined
+			? undefined
+			: read_file_visibility(
+					path.resolve(layout.project_path, declaration_path),
+				));
+
+	if (file_visibility === "internal") {
+		return false;
+	}
+
+	return !visibility.strict || file_visibility === "public";
+};
+
+/**
+ * Builds the export entry of compiled outputs
+ *
+ * @param outputs - The compiled outputs of a source file
+ * @returns A flat entry for an ESM-only build, nested `import` and `require` conditions otherwise
+ * @example
+ * to_export_entry({ esm: './dist/index.js', esm_types: './dist/index.d.ts' })
+ * // { types: './dist/index.d.ts', import: './dist/index.js' }
+ */
+const to_export_entry = (outputs: CompiledOutputs): ExportEntry => {
+	if (outputs.cjs === undefined) {
+		// missing outputs are omitted rather than left undefined, they would be dropped on stringify
+		const export_entry: ExportEntry = {};
+
+		if (outputs.esm_types !== undefined) {
+			export_entry.types = outputs.esm_types;
+		}
+
+		if (outputs.esm !== undefined) {
+			export_entry.import = outputs.esm;
+		}
+
+		return export_entry;
+	}
+
+	const export_entry: ExportEntry = {};
+
+	if (outputs.esm !== undefined) {
+		export_entry.import = format_conditions(outputs.esm_types, outputs.esm);
+	}
+
+	export_entry.require = format_conditions(outputs.cjs_types, outputs.cjs);
+
+	return export_entry;
+};
+
+/**
+ * Builds the nested conditions of a single module format, omitting missing types
+ *
+ * @param types_path - The relative path to the declaration file, if any
+ * @param default_path - The relative path to the JavaScript file
+ * @returns The format conditions
+ * @example
+ * format_conditions('./dist/index.d.cts', './dist/index.cjs')
+ * // { types: './dist/index.d.cts', default: './dist/index.cjs' }
+ */
+const format_conditions = (
+	types_path: string | undefined,
+	default_path: string,
+): FormatConditions => {
+	if (types_path === undefined) {
+		return { default: default_path };
+	}
 
-	return { export_path, entry: export_entry };
+	return { types: types_path, default: default_path };
 };
 
 /**
  * Generates the complete exports object for package.json
  *
+ * When several files generate the same subpath, the last one processed is kept.
+ *
  * @param source_file_paths - Array of relative paths to source files (TS/JS)
- * @param css_file_paths - Array of relative paths to CSS files in destination
+ * @param css_file_paths - Array of relative paths to CSS files in destination, exported like the default asset type
  * @param destination_path - The path to the compiled output directory
+ * @param layout - The project, source and declaration paths, when they differ from the defaults
+ * @param visibility - The visibility rules, if file-level JSDoc tags are respected
+ * @param conditions - The custom conditions matched by file-name suffixes, in priority order
  * @returns Export map for package.json exports field
  * @example
  * generate_exports_object(['index.ts'], ['styles.css'], './dist')
@@ -335,8 +1418,61 @@ const generate_exports_object = (
 	source_file_paths: string[],
 	css_file_paths: string[],
 	destination_path: string,
+	layout: OutputLayout = {},
+	visibility?: VisibilityOptions,
+	conditions: string[] = [],
 ): ExportMap => {
-	const exports: ExportMap = {};
+	const candidates = collect_export_candidates(
+		source_file_paths,
+		css_file_paths.map((file_path) => ({
+			file_path,
+			root_path: destination_path,
+			conditions: ["import"],
+		})),
+		destination_path,
+		layout,
+		visibility,
+		conditions,
+	);
+
+	return resolve_export_collisions(candidates, {}).exports;
+};
+
+/**
+ * Generates the export entry of each source and asset file, keeping the file it comes from
+ *
+ * The platform variants of a subpath are grouped into a single conditional entry.
+ *
+ * @param source_file_paths - Array of relative paths to source files (TS/JS)
+ * @param asset_files - The asset files to export
+ * @param destination_path - The path to the compiled output directory
+ * @param layout - The project, source and declaration paths, when they differ from the defaults
+ * @param visibility - The visibility rules, if file-level JSDoc tags are respected
+ * @param conditions - The custom conditions matched by file-name suffixes, in priority order
+ * @returns The export candidates, in processing order
+ * @example
+ * collect_export_candidates(['foo.ts', 'foo/index.ts'], [], '/path/to/project/dist')
+ * // [
+ * //   { export_path: './foo', entry: { types: './dist/foo.d.ts', import: './dist/foo.js' }, file_path: 'src/foo.ts' },
+ * //   { export_path: './foo', entry: { types: './dist/foo/index.d.ts', import: './dist/foo/index.js' }, file_path: 'src/foo/index.ts' },
+ * // ]
+ */
+const collect_export_candidates = (
+	source_file_paths: string[],
+	asset_files: AssetFile[],
+	destination_path: string,
+	layout: OutputLayout = {},
+	visibility?: VisibilityOptions,
+	conditions: string[] = [],
+): ExportCandidate[] => {
+	const candidates: ExportCandidate[] = [];
+	const project_path = layout.project_path ?? path.join(destination_path, "..");
+	const resolved_layout: Required<OutputLayout> = {
+		project_path,
+		source_path:
+			layout.source_path ?? path.join(project_path, DEFAULT_CONFIG.src),
+		types_path: layout.types_path ?? destination_path,
+	};
 
 	// Process TypeScript/JavaScript files
 	for (const file_path of source_file_paths) {
@@ -344,73 +1480,372 @@ const generate_exports_object = (
 			file_path.endsWith(".ts") || file_path.endsWith(".tsx");
 
 		if (is_typescript) {
-			const result = process_typescript_file(file_path, destination_path);
+			const result = process_typescript_file(
+				file_path,
+				destination_path,
+				resolved_layout,
+				visibility,
+				conditions,
+			);
 
 			if (result !== null) {
-				exports[result.export_path] = result.entry;
+				candidates.push({
+					...result,
+					file_path: to_project_file_path(
+						path.join(resolved_layout.source_path, file_path),
+						project_path,
+					),
+				});
 			}
 		}
 	}
 
-	// Process CSS files from destination directory
-	for (const css_path of css_file_paths) {
-		const result = process_css_file(css_path, destination_path);
+	// Process asset files, from the source or destination directory
+	return [
+		...group_condition_variants(candidates, conditions),
+		...collect_asset_export_candidates(asset_files, project_path),
+	];
+};
+
+/**
+ * Generates the export entry of each asset file
+ */
+const collect_asset_export_candidates = (
+	asset_files: AssetFile[],
+	project_path: string,
+): ExportCandidate[] => {
+	return asset_files.map((asset_file) => ({
+		// assets always get their own export, with their extension
+		...process_asset_file(asset_file, project_path),
+		file_path: to_project_file_path(
+			path.join(asset_file.root_path, asset_file.file_path),
+			project_path,
+		),
+	}));
+};
+
+/**
+ * Converts an absolute file path to a path relative to the project, as displayed in diagnostics
+ *
+ * @example
+ * to_project_file_path('/path/to/project/src/foo.ts', '/path/to/project') // 'src/foo.ts'
+ */
+const to_project_file_path = (
+	file_path: string,
+	project_path: string,
+): string => {
+	return path.relative(project_path, file_path).split(path.sep).join("/");
+};
+
+/**
+ * Source file declared as an entry, for bundlers whose output does not mirror the source tree
+ */
+type DeclaredEntry = {
+	/** The subpath the entry is exported as */
+	export_path: string;
+	/** The relative path of the source file */
+	file_path: string;
+	/** The absolute paths of the output files listed by the bundler manifests, if any */
+	output_paths?: string[];
+};
+
+/**
+ * Generates the export entry of each declared entry, mapping it to its actual output files
+ *
+ * Without a manifest, the outputs are looked up at the mirrored path, then at the path relative to the
+ * common directory of the entries, as tsup and tsdown emit them, then at the path of the declared
+ * subpath (e.g. "./button" at dist/button.js). Other files of the destination
+ * directory, such as shared chunks, are never exported.
+ *
+ * @param entries - The declared entries
+ * @param asset_files - The asset files to export
+ * @param destination_path - The path to the compiled output directory
+ * @param layout - The project, source and declaration paths
+ * @returns The export candidates, in processing order
+ * @example
+ * collect_entry_export_candidates([{ export_path: './button', file_path: 'components/button.ts' }], [], '/path/to/project/dist', layout)
+ * // with dist/button.js and dist/button.d.ts
+ * // [{ export_path: './button', entry: { types: './dist/button.d.ts', import: './dist/button.js' }, file_path: 'src/components/button.ts' }]
+ */
+const collect_entry_export_candidates = (
+	entries: DeclaredEntry[],
+	asset_files: AssetFile[],
+	destination_path: string,
+	layout: Required<OutputLayout>,
+): ExportCandidate[] => {
+	const candidates: ExportCandidate[] = [];
+	const common_directory = find_common_directory(
+		entries.map((entry) => entry.file_path),
+	);
+
+	for (const entry of entries) {
+		const output_paths =
+			entry.output_paths ??
+			find_entry_output_paths(entry, destination_path, common_directory);
+		const outputs = classify_output_paths(
+			output_paths,
+			destination_path,
+			layout,
+		);
+
+		if (outputs.esm !== undefined || outputs.cjs !== undefined) {
+			candidates.push({
+				export_path: entry.export_path,
+				entry: to_export_entry(outputs),
+				file_path: to_project_file_path(
+					path.join(layout.source_path, entry.file_path),
+					layout.project_path,
+				),
+			});
+		}
+	}
+
+	candidates.push(
+		...collect_asset_export_candidates(asset_files, layout.project_path),
+	);
+
+	return candidates;
+};
+
+/**
+ * Finds the deepest directory shared by relative file paths
+ *
+ * @example
+ * find_common_directory(['components/button.ts', 'components/card/index.ts']) // 'components'
+ * find_common_directory(['index.ts', 'components/button.ts']) // '.'
+ */
+const find_common_directory = (file_paths: string[]): string => {
+	const [first, ...rest] = file_paths.map((file_path) =>
+		path.posix.dirname(file_path).split("/"),
+	);
+
+	if (first === undefined) {
+		return ".";
+	}
+
+	let length = first.length;
+
+	for (const parts of rest) {
+		let index = 0;
+
+		while (index < length && parts[index] === first[index]) {
+			index++;
+		}
+		length = index;
+	}
+
+	return length === 0 ? "." : first.slice(0, length).join("/");
+};
+
+/**
+ * Finds the JavaScript outputs of an entry that is not listed in a manifest
+ *
+ * @param entry - The declared entry
+ * @param destination_path - The path to the compiled output directory
+ * @param common_directory - The common directory of all entries, stripped by bundlers from output paths
+ * @returns The absolute paths of the outputs found
+ * @example
+ * find_entry_output_paths({ export_path: './button', file_path: 'components/button.ts' }, '/path/to/project/dist', 'components')
+ * // ['/path/to/project/dist/button.js', '/path/to/project/dist/button.cjs']
+ */
+const find_entry_output_paths = (
+	{ export_path, file_path }: DeclaredEntry,
+	destination_path: string,
+	common_directory: string,
+): string[] => {
+	const extension = path.extname(file_path);
+	const candidates = [
+		file_path,
+		path.posix.relative(common_directory, file_path),
+	];
+
+	// the output may be named after the subpath when the entries share no directory
+	if (export_path !== ".") {
+		candidates.push(`${export_path.slice(2)}${extension}`);
+	}
+
+	for (const candidate of candidates) {
+		const base_path = path.join(
+			destination_path,
+			candidate.slice(0, candidate.length - extension.length),
+		);
+		const output_paths = [".js", ".mjs", ".cjs"]
+			.map((output_extension) => `${base_path}${output_extension}`)
+			.filter((output_path) => fs.existsSync(output_path));
 
-		if (result !== null) {
-			// CSS files always get their own export with .css extension
-			exports[result.export_path] = result.entry;
+		if (output_paths.length > 0) {
+			return output_paths;
 		}
 	}
 
-	return exports;
+	return [];
+};
+
+/**
+ * Splits the output files of an entry by module format and finds their declarations
+ *
+ * Formats follow the same rules as {@link find_compiled_outputs}. Declarations are looked up next
+ * to each output, then at the same relative path in the declaration directory.
+ *
+ * @param output_paths - The absolute paths of the output files of an entry
+ * @param destination_path - The path to the compiled output directory
+ * @param layout - The project and declaration paths
+ * @returns The relative paths of the compiled outputs
+ * @example
+ * classify_output_paths(['/path/to/project/dist/button.js', '/path/to/project/dist/button.cjs'], '/path/to/project/dist', layout)
+ * // { esm: './dist/button.js', esm_types: './dist/button.d.ts', cjs: './dist/button.cjs', cjs_types: './dist/button.d.cts' }
+ */
+const classify_output_paths = (
+	output_paths: string[],
+	destination_path: string,
+	layout: Required<OutputLayout>,
+): CompiledOutputs => {
+	const find = (extension: string) =>
+		output_paths.find((output_path) => output_path.endsWith(extension));
+	const to_relative_path = (file_path: string) =>
+		`./${path.relative(layout.project_path, file_path)}`;
+
+	const mjs = find(".mjs");
+	const js = find(".js");
+	const esm = mjs ?? js;
+	const cjs = find(".cjs") ?? (mjs === undefined ? undefined : js);
+
+	const find_declaration = (
+		output_path: string | undefined,
+		extensions: string[],
+	) => {
+		if (output_path === undefined) {
+			return undefined;
+		}
+
+		const base_path = output_path.slice(
+			0,
+			output_path.length - path.extname(output_path).length,
+		);
+		const types_base_path = path.join(
+			layout.types_path,
+			path.relative(destination_path, base_path),
+		);
+
+		for (const extension of extensions) {
+			const declaration_path = [base_path, types_base_path]
+				.map((candidate) => `${candidate}${extension}`)
+				.find((candidate) => fs.existsSync(candidate));
+
+			if (declaration_path !== undefined) {
+				return to_relative_path(declaration_path);
+			}
+		}
+
+		return undefined;
+	};
+
+	return {
+		esm: esm === undefined ? undefined : to_relative_path(esm),
+		esm_types: find_declaration(esm, [".d.mts", ".d.ts"]),
+		cjs: cjs === undefined ? undefined : to_relative_path(cjs),
+		cjs_types: find_declaration(
+			cjs,
+			mjs === undefined ? [".d.cts"] : [".d.cts", ".d.ts"],
+		),
+	};
+};
+
+/**
+ * Paths the compiled outputs are resolved against
+ */
+type OutputLayout = {
+	/** The path targets are relative to, the parent of the destination directory by default */
+	project_path?: string;
+	/** The path to the source files, the default source directory of the project by default */
+	source_path?: string;
+	/** The path to the declaration files, the destination directory by default */
+	types_path?: string;
+};
+
+/**
+ * Compiled outputs found for a source file, split by module format
+ */
+type CompiledOutputs = {
+	esm?: string;
+	esm_types?: string;
+	cjs?: string;
+	cjs_types?: string;
 };
 
 /**
- * Finds the compiled JavaScript file for a TypeScript source file
+ * Finds the compiled ESM and CJS files (and their declarations) for a source file
+ *
+ * `.mjs` and `.cjs` are always treated as ESM and CJS. A `.js` file is the ESM build,
+ * unless a `.mjs` sibling exists, in which case it is the CJS build.
+ * Declarations are looked up in the declaration directory.
  *
  * @param source_file_path - The relative path of the source file
  * @param destination_path - The path to the compiled output directory
- * @returns The relative path to the .js file or undefined if not found
+ * @param layout - The project and declaration paths
+ * @returns The relative paths of the compiled outputs that exist
  * @example
- * find_compiled_js_file('components/Button/index.tsx', './dist')
- * // './dist/components/Button/index.js'
+ * find_compiled_outputs('index.ts', './dist') // with index.js, index.d.ts, index.cjs and index.d.cts
+ * // { esm: './dist/index.js', esm_types: './dist/index.d.ts', cjs: './dist/index.cjs', cjs_types: './dist/index.d.cts' }
  */
-const find_compiled_js_file = (
+const find_compiled_outputs = (
 	source_file_path: string,
 	destination_path: string,
-): string | undefined => {
-	const base_name = path.basename(
-		source_file_path,
-		path.extname(source_file_path),
-	);
-	const directory = path.dirname(source_file_path);
+	layout: Required<OutputLayout>,
+): CompiledOutputs => {
+	const find = (extension: string) =>
+		find_compiled_file(
+			source_file_path,
+			destination_path,
+			extension,
+			layout.project_path,
+		);
+	const find_types = (extension: string) =>
+		find_compiled_file(
+			source_file_path,
+			layout.types_path,
+			extension,
+			layout.project_path,
+		);
 
-	const compiled_file_path = path.join(
-		destination_path,
-		directory,
-		`${base_name}.js`,
-	);
+	const js = find(".js");
+	const mjs = find(".mjs");
+	const dts = find_types(".d.ts");
 
-	if (!fs.existsSync(compiled_file_path)) {
-		return undefined;
+	if (mjs !== undefined) {
+		return {
+			esm: mjs,
+			esm_types: find_types(".d.mts") ?? dts,
+			cjs: find(".cjs") ?? js,
+			cjs_types: find_types(".d.cts") ?? dts,
+		};
 	}
 
-	return `./${path.relative(path.join(destination_path, ".."), compiled_file_path)}`;
+	return {
+		esm: js,
+		esm_types: find_types(".d.mts") ?? dts,
+		cjs: find(".cjs"),
+		cjs_types: find_types(".d.cts"),
+	};
 };
 
 /**
- * Finds the compiled TypeScript declaration file for a source file
+ * Finds a compiled file with the given extension for a source file
  *
  * @param source_file_path - The relative path of the source file
  * @param destination_path - The path to the compiled output directory
- * @returns The relative path to the .d.ts file or undefined if not found
+ * @param extension - The extension of the compiled file (e.g. '.js', '.d.cts')
+ * @param project_path - The path the returned path is relative to
+ * @returns The relative path to the compiled file or undefined if not found
  * @example
- * find_compiled_types_file('components/Button/index.tsx', './dist')
- * // './dist/components/Button/index.d.ts'
+ * find_compiled_file('components/Button/index.tsx', './dist', '.js', '.')
+ * // './dist/components/Button/index.js'
  */
-const find_compiled_types_file = (
+const find_compiled_file = (
 	source_file_path: string,
 	destination_path: string,
+	extension: string,
+	project_path: string,
 ): string | undefined => {
 	const base_name = path.basename(
 		source_file_path,
@@ -418,47 +1853,97 @@ const find_compiled_types_file = (
 	);
 	const directory = path.dirname(source_file_path);
 
-	const compiled_types_path = path.join(
+	const compiled_file_path = path.join(
 		destination_path,
 		directory,
-		`${base_name}.d.ts`,
+		`${base_name}${extension}`,
 	);
 
-	if (!fs.existsSync(compiled_types_path)) {
+	if (!fs.existsSync(compiled_file_path)) {
 		return undefined;
 	}
 
-	return `./${path.relative(path.join(destination_path, ".."), compiled_types_path)}`;
+	return `./${path.relative(project_path, compiled_file_path)}`;
 };
 
-// Note: find_compiled_css_file function is no longer needed since we scan destination directly
+/**
+ * Asset file found by an asset type
+ */
+type AssetFile = {
+	/** The relative path of the file in its root directory */
+	file_path: string;
+	/** The absolute path of the source or destination directory */
+	root_path: string;
+	/** The conditions of its export entry, in order */
+	conditions: string[];
+};
 
 /**
- * Processes a single CSS file and creates its export entry if applicable
+ * Finds the files of each asset type in its root directory
  *
- * @param file_path - The relative path of the CSS file in destination directory
- * @param destination_path - The path to the compiled output directory
- * @returns Export entry or null if file should not be exported
+ * @param asset_types - The configured asset types
+ * @param source_path - The absolute path of the source directory
+ * @param destination_path - The absolute path of the destination directory
+ * @param exclude - Globs of files that must never be exported
+ * @returns The asset files, in the order of the asset types
  * @example
- * process_css_file('styles/main.css', './dist')
- * // { export_path: './styles/main.css', entry: { import: './dist/styles/main.css' } }
+ * find_asset_files([{ include: ['**\/*.scss'], root: 'src', conditions: ['sass'] }], '/path/to/project/src', '/path/to/project/dist', [])
+ * // [{ file_path: 'styles/button.scss', root_path: '/path/to/project/src', conditions: ['sass'] }]
  */
-const process_css_file = (
-	file_path: string,
+const find_asset_files = (
+	asset_types: AssetType[],
+	source_path: string,
 	destination_path: string,
-): { export_path: string; entry: ExportEntry } | null => {
-	// CSS file path is already relative to destination, so we can build the style path directly
-	const style_path = `./${path.relative(path.join(destination_path, ".."), path.join(destination_path, file_path))}`;
+	exclude: string[],
+): AssetFile[] => {
+	return asset_types.flatMap((asset_type) => {
+		const root_path =
+			asset_type.root === "src" ? source_path : destination_path;
+
+		return glob
+			.sync(asset_type.include, {
+				cwd: root_path,
+				absolute: false,
+				ignore: ["**/node_modules/**", ...exclude],
+			})
+			.map((file_path) => ({
+				file_path,
+				root_path,
+				conditions: asset_type.conditions,
+			}));
+	});
+};
+
+/**
+ * Processes a single asset file and creates its export entry
+ *
+ * @param asset_file - The asset file
+ * @param project_path - The path the target is relative to
+ * @returns The export path, keeping the extension, and the entry with the target under each condition
+ * @example
+ * process_asset_file({ file_path: 'styles/main.css', root_path: '/path/to/project/dist', conditions: ['import'] }, '/path/to/project')
+ * // { export_path: './styles/main.css', entry: { import: './dist/styles/main.css' } }
+ * process_asset_file({ file_path: 'tokens.json', root_path: '/path/to/project/dist', conditions: [] }, '/path/to/project')
+ * // { export_path: './tokens.json', entry: './dist/tokens.json' }
+ */
+const process_asset_file = (
+	asset_file: AssetFile,
+	project_path: string,
+): { export_path: string; entry: AssetExportEntry } => {
+	const target = `./${to_project_file_path(path.join(asset_file.root_path, asset_file.file_path), project_path)}`;
+	const export_path = `./${asset_file.file_path}`;
+
+	if (asset_file.conditions.length === 0) {
+		return { export_path, entry: target };
+	}
 
-	// Generate export path for CSS files (keep .css extension)
-	const export_path =
-		file_path === "index.css" ? "./index.css" : `./${file_path}`;
+	const entry: Record<string, string> = {};
 
-	const export_entry: ExportEntry = {
-		import: style_path,
-	};
+	for (const condition of asset_file.conditions) {
+		entry[condition] = target;
+	}
 
-	return { export_path, entry: export_entry };
+	return { export_path, entry };
 };
 
 // ██╗   ██╗██████╗ ██████╗  █████╗ ████████╗███████╗    ███████╗██╗  ██╗██████╗  ██████╗ ██████╗ ████████╗███████╗
@@ -468,40 +1953,115 @@ const process_css_file = (
 // ╚██████╔╝██║     ██████╔╝██║  ██║   ██║   ███████╗    ███████╗██╔╝ ██╗██║     ╚██████╔╝██║  ██║   ██║   ███████║
 //  ╚═════╝ ╚═╝     ╚═════╝ ╚═╝  ╚═╝   ╚═╝   ╚══════╝    ╚══════╝╚═╝  ╚═╝╚═╝      ╚═════╝ ╚═╝  ╚═╝   ╚═╝   ╚══════╝
 
-const update_package_json_exports = (
+const serialize_import_map = (import_map: ImportMap): string => {
+	return `${JSON.stringify(import_map, null, 2)}\n`;
+};
+
+/**
+ * Reads package.json
+ */
+const read_package_json = (
 	package_json_path: string,
-	package_exports: Record<string, { import?: string; types?: string }>,
-) => {
+): ValidationResult<Record<string, unknown>> => {
 	try {
-		// read the existing package.json
-		const package_json_content = fs.readFileSync(package_json_path, "utf8");
-		const package_json = JSON.parse(package_json_content);
-
-		// Update the exports field
-		package_json.exports = package_exports;
-
-		// write back to package.json
-		fs.writeFileSync(
-			package_json_path,
-			JSON.stringify(package_json, null, 2),
-			"utf8",
+		return {
+			validated: true,
+			data: JSON.parse(fs.readFileSync(package_json_path, "utf8")),
+		};
+	} catch (error) {
+		return {
+			validated: false,
+			error: `Unable to read package.json: ${(error as Error).message}`,
+		};
+	}
+};
+
+/**
+ * Writes the exports field to package.json, or to jsr.json and deno.json, keeping the formatting
+ * of the rest of the file
+ *
+ * Other fields generated from the exports are written along, undefined ones are removed.
+ */
+const write_package_json_exports = (
+	package_json_path: string,
+	package_exports: ExportMap,
+	package_fields: Record<string, unknown> = {},
+) => {
+	// read the existing package.json
+	const package_json_content = fs.readFileSync(package_json_path, "utf8");
+
+	// Update the exports field
+	const updated_content = set_json_fields(package_json_content, {
+		exports: package_exports,
+		...package_fields,
+	});
+
+	// write back to package.json
+	fs.writeFileSync(package_json_path, updated_content, "utf8");
+};
+
+//  ██████╗██╗  ██╗███████╗ ██████╗██╗  ██╗    ███████╗██╗  ██╗██████╗  ██████╗ ██████╗ ████████╗███████╗
+// ██╔════╝██║  ██║██╔════╝██╔════╝██║ ██╔╝    ██╔════╝╚██╗██╔╝██╔══██╗██╔═══██╗██╔══██╗╚══██╔══╝██╔════╝
+// ██║     ███████║█████╗  ██║     █████╔╝     █████╗   ╚███╔╝ ██████╔╝██║   ██║██████╔╝   ██║   ███████╗
+// ██║     ██╔══██║██╔══╝  ██║     ██╔═██╗     ██╔══╝   ██╔██╗ ██╔═══╝ ██║   ██║██╔══██╗   ██║   ╚════██║
+// ╚██████╗██║  ██║███████╗╚██████╗██║  ██╗    ███████╗██╔╝ ██╗██║     ╚██████╔╝██║  ██║   ██║   ███████║
+//  ╚═════╝╚═╝  ╚═╝╚══════╝ ╚═════╝╚═╝  ╚═╝    ╚══════╝╚═╝  ╚═╝╚═╝      ╚═════╝ ╚═╝  ╚═╝   ╚═╝   ╚══════╝
+
+/**
+ * Prints the differences between package.json, or the JSR configuration, and the generated exports
+ * and exits with a non-zero code if they differ
+ */
+const report_exports_changes = (
+	changes: ExportChange[],
+	outdated_fields: string[],
+	jsr?: GenerateExportsResult["jsr"],
+) => {
+	const jsr_changes = jsr?.changes ?? [];
+
+	if (
+		changes.length === 0 &&
+		outdated_fields.length === 0 &&
+		jsr_changes.length === 0
+	) {
+		console.log(chalk.green("\n✅ package.json exports are up to date."));
+
+		return;
+	}
+
+	if (changes.length > 0 || outdated_fields.length > 0) {
+		console.log(
+			chalk.red(
+				`\n💥 package.json exports are out of date (${changes.length + outdated_fields.length} differences):`,
+			),
 		);
 
+		for (const line of format_exports_diff(changes)) {
+			console.log(line);
+		}
+
+		for (const field of outdated_fields) {
+			console.log(chalk.yellow(`  ~ ${field} (out of date)`));
+		}
+	}
+
+	if (jsr !== undefined && jsr_changes.length > 0) {
 		console.log(
-			chalk.green(
-				"\nSuccessfully updated package.json with exports configuration.",
+			chalk.red(
+				`\n💥 ${path.basename(jsr.file_path)} exports are out of date (${jsr_changes.length} differences):`,
 			),
 		);
-	} catch (error) {
-		// @ts-ignore
-		console.log(chalk.red(`\nError updating package.json: ${error.message}`));
 
-		return;
+		for (const line of format_exports_diff(jsr_changes)) {
+			console.log(line);
+		}
 	}
+
+	console.log(chalk.yellow("\nRun xportify with --write to update them."));
+	process.exit(1);
 };
 
 // Exporter les fonctions pour les tests
 export const __tests__ = {
 	generate_exports_object,
-	update_package_json_exports,
+	write_package_json_exports,
 };
@@ -0,0 +1,123 @@
+import fs from "node:fs";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { create_file, create_temp_directory } from "../test_utils";
+import { generate_workspace_exports } from "./extract_workspace_exports";
+
+describe("generate_workspace_exports", () => {
+	let temp_dir: string;
+
+	beforeEach(() => {
+		temp_dir = create_temp_directory();
+		create_file(temp_dir, "pnpm-workspace.yaml", "packages:\n  - packages/*\n");
+
+		// package with the default layout
+		create_file(temp_dir, "packages/a/package.json", '{ "name": "a" }');
+		create_file(temp_dir, "packages/a/src/index.ts");
+		create_file(temp_dir, "packages/a/dist/index.js");
+
+		// package with a custom layout
+		create_file(temp_dir, "packages/b/package.json", '{ "name": "b" }');
+		create_file(temp_dir, "packages/b/lib/index.ts");
+		create_file(temp_dir, "packages/b/build/index.js");
+	});
+
+	afterEach(() => {
+		fs.rmSync(temp_dir, { recursive: true, force: true });
+	});
+
+	it("should fail the packages whose layout cannot be found", async () => {
+		const workspace = await generate_workspace_exports({ project: temp_dir });
+
+		expect(workspace.success).toBe(false);
+		expect(
+			workspace.packages.map(({ package: { name }, success }) => [
+				name,
+				success,
+			]),
+		).toEqual([
+			["a", true],
+			["b", false],
+		]);
+		expect(workspace.packages[1].result.diagnostics[0].code).toBe(
+			"missing-source",
+		);
+	});
+
+	it("should apply per-package overrides of the root configuration", async () => {
+		create_file(
+			temp_dir,
+			"xportify.config.json",
+			JSON.stringify({
+				overrides: { b: { src: "./lib", dist: "./build" } },
+			}),
+		);
+
+		const workspace = await generate_workspace_exports({ project: temp_dir });
+
+		expect(workspace.success).toBe(true);
+		expect(workspace.packages[1].result.exports).toEqual({
+			".": { import: "./build/index.js" },
+		});
+	});
+
+	it("should fail in check mode when a package is out of date", async () => {
+		create_file(
+			temp_dir,
+			"xportify.config.json",
+			JSON.stringify({
+				overrides: { "packages/b": { src: "./lib", dist: "./build" } },
+			}),
+		);
+
+		const workspace = await generate_workspace_exports({
+			project: temp_dir,
+			check: true,
+		});
+
+		expect(workspace.success).toBe(false);
+		expect(workspace.packages.every(({ result }) => result.success)).toBe(true);
+	});
+
+	it("should ask for confirmation before writing each package", async () => {
+		create_file(
+			temp_dir,
+			"xportify.config.json",
+			JSON.stringify({
+				overrides: { b: { src: "./lib", dist: "./build" } },
+			}),
+		);
+		const confirmed: string[] = [];
+
+		const workspace = await generate_workspace_exports({
+			project: temp_dir,
+			write: true,
+			confirm: async (pending) => {
+				const name = path.basename(pending.paths.project ?? "");
+				confirmed.push(name);
+
+				return name === "a";
+			},
+		});
+
+		expect(confirmed).toEqual(["a", "b"]);
+		expect(workspace.packages.map(({ result }) => result.written)).toEqual([
+			true,
+			false,
+		]);
+		expect(
+			JSON.parse(
+				fs.readFileSync(path.join(temp_dir, "packages/b/package.json"), "utf8"),
+			),
+		).toEqual({ name: "b" });
+	});
+
+	it("should report a missing workspace", async () => {
+		fs.rmSync(path.join(temp_dir, "pnpm-workspace.yaml"));
+
+		const workspace = await generate_workspace_exports({ project: temp_dir });
+
+		expect(workspace.success).toBe(false);
+		expect(workspace.diagnostics[0].code).toBe("no-workspace");
+	});
+});
@@ -0,0 +1,236 @@
+import fs from "node:fs";
+import path from "node:path";
+import chalk from "chalk";
+import { load_config, type XportifyConfig } from "../lib/config.js";
+import { format_exports_diff } from "../lib/exports_diff.js";
+import {
+	discover_workspace_packages,
+	type WorkspacePackage,
+} from "../lib/workspace.js";
+import type { Diagnostic } from "../types.js";
+import {
+	ask_write_confirmation,
+	type GenerateExportsOptions,
+	type GenerateExportsResult,
+	generate_exports,
+	print_pending_changes,
+} from "./extract_exports.js";
+
+//  ██████╗ ██████╗ ███╗   ███╗███╗   ███╗ █████╗ ███╗   ██╗██████╗
+// ██╔════╝██╔═══██╗████╗ ████║████╗ ████║██╔══██╗████╗  ██║██╔══██╗
+// ██║     ██║   ██║██╔████╔██║██╔████╔██║███████║██╔██╗ ██║██║  ██║
+// ██║     ██║   ██║██║╚██╔╝██║██║╚██╔╝██║██╔══██║██║╚██╗██║██║  ██║
+// ╚██████╗╚██████╔╝██║ ╚═╝ ██║██║ ╚═╝ ██║██║  ██║██║ ╚████║██████╔╝
+//  ╚═════╝ ╚═════╝ ╚═╝     ╚═╝╚═╝     ╚═╝╚═╝  ╚═╝╚═╝  ╚═══╝╚═════╝
+
+type ExtractWorkspaceExportsOptions = GenerateWorkspaceExportsOptions & {
+	/** Write without asking for confirmation */
+	yes?: boolean;
+};
+
+/**
+ * CLI command: generates the exports of every workspace package and prints a combined summary
+ *
+ * Before writing a package, its differences with package.json are printed and, in a terminal, confirmed.
+ */
+export async function extract_workspace_exports(
+	cli_options: ExtractWorkspaceExportsOptions,
+) {
+	const { yes, ...options } = cli_options;
+	const workspace = await generate_workspace_exports({
+		...options,
+		confirm: async (pending) => {
+			console.log(
+				chalk.blue(
+					`\n📦 ${pending.paths.package_json ?? pending.paths.project}`,
+				),
+			);
+			print_pending_changes(pending);
+
+			return yes || (await ask_write_confirmation());
+		},
+	});
+
+	for (const diagnostic of workspace.diagnostics) {
+		console.log(chalk.red(`💥 ${diagnostic.message}`));
+	}
+
+	for (const {
+		package: workspace_package,
+		result,
+		success,
+	} of workspace.packages) {
+		const label = `${workspace_package.name} ${chalk.gray(workspace_package.relative_path)}`;
+
+		if (!success) {
+			console.log(chalk.red("✖"), label);
+		} else {
+			console.log(chalk.green("✔"), label, describe_package_result(result));
+		}
+
+		for (const diagnostic of result.diagnostics) {
+			const color = diagnostic.severity === "error" ? chalk.red : chalk.yellow;
+			console.log(color(`    ${diagnostic.message}`));
+		}
+
+		if (result.options.check && !is_up_to_date(result)) {
+			console.log(chalk.red("    package.json exports are out of date:"));
+
+			for (const line of format_exports_diff(result.changes)) {
+				console.log(`  ${line}`);
+			}
+
+			for (const field of result.outdated_fields) {
+				console.log(chalk.yellow(`    ~ ${field} (out of date)`));
+			}
+		}
+	}
+
+	const failed = workspace.packages.filter(({ success }) => !success).length;
+	const total_exports = workspace.packages.reduce(
+		(total, { result }) => total + Object.keys(result.exports).length,
+		0,
+	);
+
+	console.log(
+		`\n${workspace.packages.length} packages, ${chalk.green(`${workspace.packages.length - failed} succeeded`)}, ${failed > 0 ? chalk.red(`${failed} failed`) : "0 failed"}, ${total_exports} exports`,
+	);
+
+	if (!workspace.success) {
+		process.exit(1);
+	}
+}
+
+/**
+ * Describes the outcome of a package that succeeded
+ */
+const describe_package_result = (result: GenerateExportsResult): string => {
+	const exports_count = `${Object.keys(result.exports).length} exports`;
+
+	if (result.written) {
+		return chalk.gray(`${exports_count}, written`);
+	}
+
+	if (is_up_to_date(result)) {
+		return chalk.gray(`${exports_count}, up to date`);
+	}
+
+	return chalk.gray(
+		`${exports_count}, ${result.changes.length + result.outdated_fields.length} changes`,
+	);
+};
+
+/**
+ * Whether package.json matches the generated exports and fields
+ */
+const is_up_to_date = (result: GenerateExportsResult): boolean => {
+	return result.changes.length === 0 && result.outdated_fields.length === 0;
+};
+
+//  █████╗ ██████╗ ██╗
+// ██╔══██╗██╔══██╗██║
+// ███████║██████╔╝██║
+// ██╔══██║██╔═══╝ ██║
+// ██║  ██║██║     ██║
+// ╚═╝  ╚═╝╚═╝     ╚═╝
+
+/**
+ * Options of the workspace mode, applied to every package, the confirm hook being called before writing each package
+ */
+export type GenerateWorkspaceExportsOptions = GenerateExportsOptions;
+
+/**
+ * Result of the workspace mode
+ */
+export type GenerateWorkspaceExportsResult = {
+	/** Whether every package succeeded (and is up to date in check mode) */
+	success: boolean;
+	/** The result of each package, sorted by relative path */
+	packages: {
+		package: WorkspacePackage;
+		result: GenerateExportsResult;
+		success: boolean;
+	}[];
+	/** Errors reported for the workspace itself */
+	diagnostics: Diagnostic[];
+};
+
+/**
+ * Generates the exports of every package of a workspace
+ *
+ * Packages are discovered from pnpm-workspace.yaml or the "workspaces" field of the root package.json.
+ * Each package uses its own configuration, overridden by the "overrides" entry of the root configuration
+ * matching its name or relative path, itself overridden by the given options.
+ *
+ * @param options - The workspace root path and the options applied to every package
+ * @returns The result of each package
+ * @example
+ * const workspace = await generate_workspace_exports({ project: '.', check: true })
+ * if (!workspace.success) process.exitCode = 1
+ */
+export async function generate_workspace_exports(
+	options: GenerateWorkspaceExportsOptions,
+): Promise<GenerateWorkspaceExportsResult> {
+	const fail = (code: string, message: string) => ({
+		success: false,
+		packages: [],
+		diagnostics: [{ severity: "error" as const, code, message }],
+	});
+
+	const root_path = path.resolve(process.cwd(), options.project ?? ".");
+
+	if (!fs.existsSync(root_path)) {
+		return fail(
+			"invalid-project",
+			`Workspace directory "${root_path}" does not exist.`,
+		);
+	}
+
+	const packages_validation = discover_workspace_packages(root_path);
+	if (!packages_validation.validated) {
+		return fail("no-workspace", packages_validation.error);
+	}
+
+	const config_validation = await load_config(root_path, options.config);
+	if (!config_validation.validated) {
+		return fail("invalid-config", config_validation.error);
+	}
+	const overrides = config_validation.data.config.overrides ?? {};
+
+	const given_options = Object.fromEntries(
+		Object.entries(options).filter(
+			([key, value]) =>
+				value !== undefined &&
+				key !== "project" &&
+				key !== "config" &&
+				key !== "confirm",
+		),
+	) as XportifyConfig;
+
+	const packages: GenerateWorkspaceExportsResult["packages"] = [];
+
+	for (const workspace_package of packages_validation.data) {
+		const package_overrides =
+			overrides[workspace_package.name] ??
+			overrides[workspace_package.relative_path] ??
+			{};
+
+		const result = await generate_exports({
+			...package_overrides,
+			...given_options,
+			project: workspace_package.path,
+			confirm: options.confirm,
+		});
+
+		const success =
+			result.success && !(result.options.check && !is_up_to_date(result));
+
+		packages.push({ package: workspace_package, result, success });
+	}
+
+	return {
+		success: packages.every((workspace_package) => workspace_package.success),
+		packages,
+		diagnostics: [],
+	};
+}
@@ -0,0 +1,57 @@
+import fs from "node:fs";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { create_file, create_temp_directory } from "../test_utils";
+import { smoke_test_exports } from "./smoke_test_exports";
+
+describe("smoke_test_exports", () => {
+	let temp_dir: string;
+
+	beforeEach(() => {
+		temp_dir = create_temp_directory();
+		create_file(
+			temp_dir,
+			"package.json",
+			'{ "name": "test-package", "type": "module" }',
+		);
+		create_file(temp_dir, "src/index.ts");
+		create_file(temp_dir, "dist/index.js", "export const value = 1;");
+		create_file(temp_dir, "dist/index.d.ts");
+	});
+
+	afterEach(() => {
+		fs.rmSync(temp_dir, { recursive: true, force: true });
+	});
+
+	it("should load the generated exports rather than package.json", async () => {
+		const result = await smoke_test_exports({ project: temp_dir });
+
+		expect(result.success).toBe(true);
+		expect(result.results).toEqual([
+			{
+				subpath: ".",
+				specifier: "test-package",
+				condition: "import",
+				file_path: "./dist/index.js",
+			},
+		]);
+		expect(
+			JSON.parse(fs.readFileSync(path.join(temp_dir, "package.json"), "utf8")),
+		).toEqual({ name: "test-package", type: "module" });
+	});
+
+	it("should fail on targets that do not load", async () => {
+		create_file(temp_dir, "src/broken.ts");
+		create_file(temp_dir, "dist/broken.js", 'throw new Error("Boom");');
+		create_file(temp_dir, "dist/broken.d.ts");
+
+		const result = await smoke_test_exports({ project: temp_dir });
+
+		expect(result.success).toBe(false);
+		expect(result.diagnostics).toContainEqual({
+			severity: "error",
+			code: "top-level-error",
+			message: '"test-package/broken" (import): top-level error, Boom',
+		});
+	});
+});
@@ -0,0 +1,205 @@
+import fs from "node:fs";
+import chalk from "chalk";
+import {
+	create_package_scope,
+	list_smoke_test_targets,
+	load_smoke_test_target,
+	type SmokeTestProblem,
+	type SmokeTestResult,
+} from "../lib/smoke_test.js";
+import type { Diagnostic } from "../types.js";
+import {
+	type GenerateExportsOptions,
+	generate_exports,
+} from "./extract_exports.js";
+
+//  ██████╗ ██████╗ ███╗   ███╗███╗   ███╗ █████╗ ███╗   ██╗██████╗
+// ██╔════╝██╔═══██╗████╗ ████║████╗ ████║██╔══██╗████╗  ██║██╔══██╗
+// ██║     ██║   ██║██╔████╔██║██╔████╔██║███████║██╔██╗ ██║██║  ██║
+// ██║     ██║   ██║██║╚██╔╝██║██║╚██╔╝██║██╔══██║██║╚██╗██║██║  ██║
+// ╚██████╗╚██████╔╝██║ ╚═╝ ██║██║ ╚═╝ ██║██║  ██║██║ ╚████║██████╔╝
+//  ╚═════╝ ╚═════╝ ╚═╝     ╚═╝╚═╝     ╚═╝╚═╝  ╚═╝╚═╝  ╚═══╝╚═════╝
+
+/**
+ * CLI command: loads every generated JavaScript target in Node.js and prints the outcome
+ */
+export async function smoke_test_package_exports(
+	cli_options: SmokeTestExportsOptions,
+) {
+	const result = await smoke_test_exports(cli_options);
+
+	for (const specifier of new Set(
+		result.results.map((target) => target.specifier),
+	)) {
+		console.log(`\n${chalk.bold(specifier)}`);
+
+		for (const target of result.results.filter(
+			(target) => target.specifier === specifier,
+		)) {
+			console.log(format_smoke_test_result(target));
+		}
+	}
+
+	for (const diagnostic of result.diagnostics) {
+		if (diagnostic.severity === "error") {
+			console.log(chalk.red(`💥 ${diagnostic.message}`));
+		} else {
+			console.log(chalk.yellow(`⚠️ ${diagnostic.message}`));
+		}
+	}
+
+	if (!result.success) {
+		process.exit(1);
+	}
+
+	console.log(
+		chalk.green(
+			`\n✅ Every JavaScript target loads in Node.js ${process.version}.`,
+		),
+	);
+}
+
+/**
+ * Formats the outcome of loading a target, as a line of the report
+ */
+const format_smoke_test_result = (target: SmokeTestResult): string => {
+	const label = `${target.condition.padEnd(9)}${target.file_path}`;
+
+	if (target.problem === undefined) {
+		return `  ${chalk.green("✔")} ${label}`;
+	}
+
+	return `  ${chalk.red("✖")} ${label}  ${chalk.red(PROBLEM_LABELS[target.problem])} ${chalk.gray(target.message ?? "")}`.trimEnd();
+};
+
+const PROBLEM_LABELS: Record<SmokeTestProblem, string> = {
+	"syntax-error": "syntax error",
+	"missing-dependency": "missing dependency",
+	"missing-module": "missing module",
+	"top-level-error": "top-level error",
+	timeout: "timeout",
+};
+
+//  █████╗ ██████╗ ██╗
+// ██╔══██╗██╔══██╗██║
+// ███████║██████╔╝██║
+// ██╔══██║██╔═══╝ ██║
+// ██║  ██║██║     ██║
+// ╚═╝  ╚═╝╚═╝     ╚═╝
+
+/**
+ * Options of the smoke test, the exports being generated with the same options as the default command
+ */
+export type SmokeTestExportsOptions = GenerateExportsOptions & {
+	/** The time in milliseconds after which loading a target is aborted (default: 10000) */
+	timeout?: number;
+};
+
+/**
+ * Result of the smoke test
+ */
+export type SmokeTestExportsResult = {
+	/** Whether every target loaded */
+	success: boolean;
+	/** The outcome of loading each target */
+	results: SmokeTestResult[];
+	/** Diagnostics of the generation, then one error per target that failed to load */
+	diagnostics: Diagnostic[];
+};
+
+/**
+ * Generates the exports of a project and loads each `import` and `require` target by its package
+ * specifier, in an isolated Node.js process, without writing anything
+ *
+ * The package name resolves to itself through the generated exports. CSS and type-only entries are skipped.
+ *
+ * @param options - The project path and the options overriding the project configuration
+ * @returns The outcome of loading each target and the diagnostics
+ * @example
+ * const result = await smoke_test_exports({ project: '.' })
+ * if (!result.success) console.error(result.diagnostics)
+ */
+export async function smoke_test_exports(
+	options: SmokeTestExportsOptions,
+): Promise<SmokeTestExportsResult> {
+	const { timeout = 10_000, ...generate_options } = options;
+	const generation = await generate_exports({
+		...generate_options,
+		write: false,
+		check: false,
+	});
+	const result: SmokeTestExportsResult = {
+		success: false,
+		results: [],
+		diagnostics: [...generation.diagnostics],
+	};
+
+	if (
+		!generation.success ||
+		generation.paths.project === undefined ||
+		generation.paths.package_json === undefined
+	) {
+		return result;
+	}
+
+	const project_path = generation.paths.project;
+	const package_json = JSON.parse(
+		fs.readFileSync(generation.paths.package_json, "utf8"),
+	);
+
+	if (typeof package_json.name !== "string" || package_json.name === "") {
+		result.diagnostics.push({
+			severity: "error",
+			code: "missing-package-name",
+			message:
+				"The smoke test loads the targets by their package specifier and requires a name in package.json.",
+		});
+
+		return result;
+	}
+
+	const targets = list_smoke_test_targets(
+		generation.exports,
+		project_path,
+		package_json.name,
+	);
+	const { scope_path, remove } = create_package_scope(
+		project_path,
+		package_json,
+		generation.exports,
+	);
+
+	try {
+		for (const target of targets) {
+			const loaded = await load_smoke_test_target(target, scope_path, timeout);
+
+			// error messages refer to the files through the scope
+			result.results.push(
+				loaded.message === undefined
+					? loaded
+					: {
+							...loaded,
+							message: loaded.message.split(scope_path).join(project_path),
+						},
+			);
+		}
+	} finally {
+		remove();
+	}
+
+	for (const target of result.results) {
+		if (target.problem !== undefined) {
+			result.diagnostics.push({
+				severity: "error",
+				code: target.problem,
+				message: `"${target.specifier}" (${target.condition}): ${PROBLEM_LABELS[target.problem]}, ${target.message}`,
+			});
+		}
+	}
+
+	result.success = !result.diagnostics.some(
+		(diagnostic) => diagnostic.severity === "error",
+	);
+
+	return result;
+}
@@ -0,0 +1,74 @@
+import fs from "node:fs";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { create_file, create_temp_directory } from "../test_utils";
+import { verify_exports } from "./verify_exports";
+
+describe("verify_exports", () => {
+	let temp_dir: string;
+
+	beforeEach(() => {
+		temp_dir = create_temp_directory();
+		create_file(
+			temp_dir,
+			"package.json",
+			'{ "name": "test-package", "type": "module" }',
+		);
+		create_file(temp_dir, "src/index.ts");
+		create_file(temp_dir, "dist/index.js");
+		create_file(temp_dir, "dist/index.d.ts");
+	});
+
+	afterEach(() => {
+		fs.rmSync(temp_dir, { recursive: true, force: true });
+	});
+
+	it("should resolve the generated exports rather than package.json", async () => {
+		const result = await verify_exports({ project: temp_dir });
+
+		expect(result.success).toBe(true);
+		expect(
+			result.resolutions.map((resolution) => [
+				resolution.mode,
+				resolution.types?.file_path,
+				resolution.js?.file_path,
+			]),
+		).toEqual([
+			["node10", undefined, undefined],
+			["node16-esm", "./dist/index.d.ts", "./dist/index.js"],
+			["node16-cjs", "./dist/index.d.ts", undefined],
+			["bundler", "./dist/index.d.ts", "./dist/index.js"],
+		]);
+	});
+
+	it("should resolve the generated package fields along with the exports", async () => {
+		create_file(temp_dir, "src/utils.ts");
+		create_file(temp_dir, "dist/utils.js");
+		create_file(temp_dir, "dist/utils.d.ts");
+
+		const result = await verify_exports({
+			project: temp_dir,
+			typesVersions: true,
+		});
+
+		expect(
+			result.resolutions.find(
+				(resolution) =>
+					resolution.subpath === "./utils" && resolution.mode === "node10",
+			)?.types?.file_path,
+		).toBe("./dist/utils.d.ts");
+	});
+
+	it("should fail on subpaths without types", async () => {
+		create_file(temp_dir, "src/utils.ts");
+		create_file(temp_dir, "dist/utils.js");
+
+		const result = await verify_exports({ project: temp_dir });
+
+		expect(result.success).toBe(false);
+		expect(result.diagnostics).toContainEqual({
+			severity: "error",
+			code: "untyped",
+			message: '"test-package/utils" under node16-esm: no types.',
+		});
+	});
+});
@@ -0,0 +1,211 @@
+import fs from "node:fs";
+import { createRequire } from "node:module";
+import path from "node:path";
+import chalk from "chalk";
+import type ts from "typescript";
+import {
+	is_resolution_error,
+	RESOLUTION_MODES,
+	type ResolutionProblem,
+	type ResolvedFile,
+	resolve_export_map,
+	type SubpathResolution,
+} from "../lib/module_resolution.js";
+import type { Diagnostic } from "../types.js";
+import {
+	type GenerateExportsOptions,
+	generate_exports,
+} from "./extract_exports.js";
+
+//  ██████╗ ██████╗ ███╗   ███╗███╗   ███╗ █████╗ ███╗   ██╗██████╗
+// ██╔════╝██╔═══██╗████╗ ████║████╗ ████║██╔══██╗████╗  ██║██╔══██╗
+// ██║     ██║   ██║██╔████╔██║██╔████╔██║███████║██╔██╗ ██║██║  ██║
+// ██║     ██║   ██║██║╚██╔╝██║██║╚██╔╝██║██╔══██║██║╚██╗██║██║  ██║
+// ╚██████╗╚██████╔╝██║ ╚═╝ ██║██║ ╚═╝ ██║██║  ██║██║ ╚████║██████╔╝
+//  ╚═════╝ ╚═════╝ ╚═╝     ╚═╝╚═╝     ╚═╝╚═╝  ╚═╝╚═╝  ╚═══╝╚═════╝
+
+/**
+ * CLI command: resolves every generated subpath under each module resolution and prints the outcome
+ */
+export async function verify_package_exports(
+	cli_options: VerifyExportsOptions,
+) {
+	const result = await verify_exports(cli_options);
+
+	for (const subpath of new Set(
+		result.resolutions.map((resolution) => resolution.subpath),
+	)) {
+		const resolutions = result.resolutions.filter(
+			(resolution) => resolution.subpath === subpath,
+		);
+
+		console.log(
+			`\n${chalk.bold(subpath)} ${chalk.gray(resolutions[0].specifier)}`,
+		);
+
+		for (const resolution of resolutions) {
+			console.log(format_resolution(resolution));
+		}
+	}
+
+	for (const diagnostic of result.diagnostics) {
+		if (diagnostic.severity === "error") {
+			console.log(chalk.red(`💥 ${diagnostic.message}`));
+		} else {
+			console.log(chalk.yellow(`⚠️ ${diagnostic.message}`));
+		}
+	}
+
+	if (!result.success) {
+		process.exit(1);
+	}
+
+	console.log(
+		chalk.green(
+			`\n✅ Types and JavaScript agree for every subpath under ${RESOLUTION_MODES.join(", ")}.`,
+		),
+	);
+}
+
+/**
+ * Formats the resolution of a subpath in a single mode, as a line of the report
+ */
+const format_resolution = (resolution: SubpathResolution): string => {
+	const format_file = (label: string, file: ResolvedFile | undefined) =>
+		file === undefined
+			? chalk.red(`✖ ${label}`)
+			: `${chalk.green(`✔ ${label}`)} ${file.file_path} ${chalk.gray(`(${file.format})`)}`;
+
+	const status = is_resolution_error(resolution.problem)
+		? chalk.red(PROBLEM_LABELS[resolution.problem as ResolutionProblem])
+		: resolution.problem === undefined
+			? ""
+			: chalk.gray(PROBLEM_LABELS[resolution.problem]);
+
+	return `  ${resolution.mode.padEnd(12)}${format_file("types", resolution.types)}  ${format_file("js", resolution.js)}  ${status}`.trimEnd();
+};
+
+const PROBLEM_LABELS: Record<ResolutionProblem, string> = {
+	unresolved: "not available",
+	"esm-only": "ESM only (dynamic import)",
+	untyped: "no types",
+	"missing-js": "types without JavaScript",
+	"format-mismatch": "types and JavaScript disagree on the format",
+};
+
+//  █████╗ ██████╗ ██╗
+// ██╔══██╗██╔══██╗██║
+// ███████║██████╔╝██║
+// ██╔══██║██╔═══╝ ██║
+// ██║  ██║██║     ██║
+// ╚═╝  ╚═╝╚═╝     ╚═╝
+
+/**
+ * Options of the verification, the exports being generated with the same options as the default command
+ */
+export type VerifyExportsOptions = GenerateExportsOptions;
+
+/**
+ * Result of the verification
+ */
+export type VerifyExportsResult = {
+	/** Whether every subpath resolves consistently in each mode where it is available */
+	success: boolean;
+	/** The resolution of each subpath in each mode */
+	resolutions: SubpathResolution[];
+	/** Diagnostics of the generation, then one error per inconsistent resolution */
+	diagnostics: Diagnostic[];
+};
+
+/**
+ * Generates the exports of a project and resolves every subpath under node10, node16 (ESM and CJS)
+ * and bundler module resolution, without writing anything
+ *
+ * The TypeScript compiler is loaded from the project, or from the dependencies of xportify.
+ *
+ * @param options - The project path and the options overriding the project configuration
+ * @returns The resolution of each subpath and the diagnostics
+ * @example
+ * const result = await verify_exports({ project: '.' })
+ * if (!result.success) console.error(result.diagnostics)
+ */
+export async function verify_exports(
+	options: VerifyExportsOptions,
+): Promise<VerifyExportsResult> {
+	const generation = await generate_exports({
+		...options,
+		write: false,
+		check: false,
+	});
+	const result: VerifyExportsResult = {
+		success: false,
+		resolutions: [],
+		diagnostics: [...generation.diagnostics],
+	};
+
+	if (
+		!generation.success ||
+		generation.paths.project === undefined ||
+		generation.paths.package_json === undefined
+	) {
+		return result;
+	}
+
+	const typescript = await load_typescript(generation.paths.project);
+	if (typescript === undefined) {
+		result.diagnostics.push({
+			severity: "error",
+			code: "missing-typescript",
+			message:
+				'Verifying the exports requires the "typescript" package, install it in the project.',
+		});
+
+		return result;
+	}
+
+	// the fields generated along with the exports are resolved as they would be written
+	const package_json = {
+		...JSON.parse(fs.readFileSync(generation.paths.package_json, "utf8")),
+		...generation.package_fields,
+	};
+
+	result.resolutions = resolve_export_map(
+		typescript,
+		generation.exports,
+		generation.paths.project,
+		package_json,
+	);
+
+	for (const resolution of result.resolutions) {
+		if (is_resolution_error(resolution.problem)) {
+			result.diagnostics.push({
+				severity: "error",
+				code: resolution.problem as ResolutionProblem,
+				message: `"${resolution.specifier}" under ${resolution.mode}: ${PROBLEM_LABELS[resolution.problem as ResolutionProblem]}.`,
+			});
+		}
+	}
+
+	result.success = !result.diagnostics.some(
+		(diagnostic) => diagnostic.severity === "error",
+	);
+
+	return result;
+}
+
+/**
+ * Loads the TypeScript compiler installed in the project, falling back to the one of xportify
+ */
+const load_typescript = async (
+	project_path: string,
+): Promise<typeof ts | undefined> => {
+	try {
+		return createRequire(path.join(project_path, "package.json"))("typescript");
+	} catch {
+		try {
+			return (await import("typescript")).default;
+		} catch {
+			return undefined;
+		}
+	}
+};
@@ -1,40 +1,53 @@
-// Get package.json for version
-import { readFileSync } from "node:fs";
-import path from "node:path";
-import { fileURLToPath } from "node:url";
-import chalk from "chalk";
-import { Command } from "commander";
-import { extract_exports } from "./commands/extract_exports.js";
-
-const package_json = JSON.parse(
-	readFileSync(new URL("../package.json", import.meta.url), "utf8"),
-);
-
-// Get the current directory
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-
-// Initialize the CLI program
-const program = new Command();
-
-// Setup CLI configuration
-program
-	.name("xportify")
-	.description("CLI to handle file paths")
-	.version(package_json.version);
-
-// Define the default command
-program
-	.option("-p, --project <path>", "Path to resolve to absolute")
-	.option("-s, --src <directory>", "Relative source directory", "./src")
-	.option("-d, --dist <directory>", "Relative destination directory", "./dist")
-	.option("-w, --write", "Write exports to package.json", false)
-	.action(extract_exports);
-
-// Define version command
-program.command("version").action(() => {
-	console.log(`Version: ${chalk.green(program.version())}`);
-});
-
-// Parse command line arguments
-program.parse(process.argv);
+export {
+	type CompareExportsOptions,
+	type CompareExportsResult,
+	compare_exports,
+} from "./commands/compare_exports.js";
+export {
+	type GenerateExportsOptions,
+	type GenerateExportsResult,
+	generate_exports,
+} from "./commands/extract_exports.js";
+export {
+	type GenerateWorkspaceExportsOptions,
+	type GenerateWorkspaceExportsResult,
+	generate_workspace_exports,
+} from "./commands/extract_workspace_exports.js";
+export {
+	type SmokeTestExportsOptions,
+	type SmokeTestExportsResult,
+	smoke_test_exports,
+} from "./commands/smoke_test_exports.js";
+export {
+	type VerifyExportsOptions,
+	type VerifyExportsResult,
+	verify_exports,
+} from "./commands/verify_exports.js";
+export type { ReleaseType, SubpathChange } from "./lib/breaking_changes.js";
+export type { XportifyConfig } from "./lib/config.js";
+export type { ExportChange } from "./lib/exports_diff.js";
+export type {
+	ExportDiagnostic,
+	ExportDiagnosticCode,
+} from "./lib/exports_validation.js";
+export type { ImportMap } from "./lib/import_map.js";
+export type { JsrExports } from "./lib/jsr.js";
+export type {
+	ResolutionMode,
+	ResolutionProblem,
+	SubpathResolution,
+} from "./lib/module_resolution.js";
+export type {
+	SmokeTestCondition,
+	SmokeTestProblem,
+	SmokeTestResult,
+} from "./lib/smoke_test.js";
+export type { WorkspacePackage } from "./lib/workspace.js";
+export type {
+	AssetExportEntry,
+	ConditionalExportEntry,
+	Diagnostic,
+	ExportEntry,
+	ExportMap,
+	FormatConditions,
+} from "./types.js";
@@ -0,0 +1,113 @@
+import { execFileSync } from "node:child_process";
+import fs from "node:fs";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { create_temp_directory } from "../test_utils";
+import {
+	classify_subpath_changes,
+	find_required_release,
+	read_git_baseline,
+	read_snapshot_baseline,
+	write_snapshot,
+} from "./breaking_changes";
+
+describe("classify_subpath_changes", () => {
+	it("should classify removed, added and retargeted subpaths", () => {
+		const changes = classify_subpath_changes(
+			{
+				".": { import: "./dist/index.js" },
+				"./old": { import: "./dist/old.js" },
+			},
+			{
+				".": { import: "./dist/main.js" },
+				"./new": { import: "./dist/new.js" },
+			},
+			"/path/to/project",
+		);
+
+		expect(
+			changes.map(({ kind, subpath, release }) => [kind, subpath, release]),
+		).toEqual([
+			["removed", "./old", "major"],
+			["retargeted", ".", "patch"],
+			["added", "./new", "minor"],
+		]);
+		expect(find_required_release(changes)).toBe("major");
+	});
+
+	it("should require no release when the subpaths are unchanged", () => {
+		const changes = classify_subpath_changes(
+			"./dist/index.js",
+			{ ".": "./dist/index.js" },
+			"/path/to/project",
+		);
+
+		expect(changes).toEqual([]);
+		expect(find_required_release(changes)).toBeUndefined();
+	});
+});
+
+describe("baselines", () => {
+	let temp_dir: string;
+
+	beforeEach(() => {
+		temp_dir = create_temp_directory();
+	});
+
+	afterEach(() => {
+		fs.rmSync(temp_dir, { recursive: true, force: true });
+	});
+
+	it("should read back a saved snapshot", () => {
+		const snapshot_path = path.join(temp_dir, "snapshots/exports.json");
+
+		write_snapshot(snapshot_path, { ".": { import: "./dist/index.js" } });
+
+		expect(read_snapshot_baseline(snapshot_path)).toEqual({
+			validated: true,
+			data: { ".": { import: "./dist/index.js" } },
+		});
+	});
+
+	it("should report a missing snapshot", () => {
+		expect(read_snapshot_baseline(path.join(temp_dir, "missing.json"))).toEqual(
+			{
+				validated: false,
+				error: `Snapshot "${path.join(temp_dir, "missing.json")}" does not exist.`,
+			},
+		);
+	});
+
+	it("should read package.json of a nested package at a git ref", async () => {
+		const package_path = path.join(temp_dir, "packages/ui");
+		const git = (...args: string[]) =>
+			execFileSync("git", args, { cwd: temp_dir, stdio: "ignore" });
+
+		fs.mkdirSync(package_path, { recursive: true });
+		fs.writeFileSync(
+			path.join(package_path, "package.json"),
+			JSON.stringify({ exports: { ".": "./dist/index.js" } }),
+		);
+		git("init", "--quiet");
+		git("add", "-A");
+		git(
+			"-c",
+			"user.name=test",
+			"-c",
+			"user.email=test@example.com",
+			"commit",
+			"--quiet",
+			"-m",
+			"init",
+		);
+		fs.writeFileSync(path.join(package_path, "package.json"), "{}");
+
+		expect(await read_git_baseline(package_path, "HEAD")).toEqual({
+			validated: true,
+			data: { ".": "./dist/index.js" },
+		});
+		expect(await read_git_baseline(package_path, "missing-ref")).toMatchObject({
+			validated: false,
+		});
+	});
+});
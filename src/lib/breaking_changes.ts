@@ -0,0 +1,248 @@
+import { execFile } from "node:child_process";
+import fs from "node:fs";
+import path from "node:path";
+import { promisify } from "node:util";
+import type { ExportMap, ValidationResult } from "../types.js";
+import { collect_targets } from "./export_targets.js";
+import {
+	diff_exports,
+	type ExportChange,
+	normalize_exports,
+} from "./exports_diff.js";
+import {
+	find_pattern_substitutions,
+	resolve_export_target,
+} from "./module_resolution.js";
+
+/**
+ * Release a change of the public subpaths requires, following semver
+ */
+export type ReleaseType = "major" | "minor" | "patch";
+
+/**
+ * Difference of a single subpath between the baseline and the generated exports
+ *
+ * - `removed`: the subpath no longer resolves, which breaks its consumers (major)
+ * - `added`: the subpath is new (minor)
+ * - `retargeted`: the subpath resolves to other files (patch)
+ */
+export type SubpathChange = {
+	kind: "removed" | "added" | "retargeted";
+	subpath: string;
+	release: ReleaseType;
+	/** The underlying difference, with the previous and next entries */
+	change: ExportChange;
+};
+
+const RELEASES: Record<SubpathChange["kind"], ReleaseType> = {
+	removed: "major",
+	added: "minor",
+	retargeted: "patch",
+};
+
+const exec_file = promisify(execFile);
+
+/**
+ * Classifies the differences between the exports of a baseline and the generated exports
+ *
+ * Subpaths are compared by what they resolve to rather than by key, so that a subpath moving to or
+ * from a pattern (e.g. "./components/button" collapsed into "./components/*") is neither removed nor
+ * added when it still resolves to the same files. Pattern subpaths are expanded to the files they match.
+ *
+ * @param baseline_exports - The exports field of the baseline
+ * @param exports - The generated export map
+ * @param project_path - The absolute path of the package, where pattern subpaths are expanded
+ * @returns The removed, added and retargeted subpaths
+ * @example
+ * classify_subpath_changes({ './old': './dist/old.js' }, { './new': { import: './dist/new.js' } }, '/path/to/project')
+ * // [
+ * //   { kind: 'removed', subpath: './old', release: 'major', change: { ... } },
+ * //   { kind: 'added', subpath: './new', release: 'minor', change: { ... } },
+ * // ]
+ */
+export const classify_subpath_changes = (
+	baseline_exports: unknown,
+	exports: ExportMap,
+	project_path: string,
+): SubpathChange[] => {
+	const baseline = normalize_exports(baseline_exports) as ExportMap;
+	const changes: SubpathChange[] = [];
+
+	for (const change of diff_exports(baseline_exports, exports)) {
+		if (change.kind === "changed") {
+			changes.push(to_subpath_change("retargeted", change));
+			continue;
+		}
+
+		// a removed key may still resolve through a pattern of the generated exports, and conversely
+		const [from, to, entry] =
+			change.kind === "removed"
+				? [baseline, exports, change.previous]
+				: [exports, baseline, change.next];
+		const subpaths = change.key.includes("*")
+			? find_pattern_substitutions(entry, project_path).map((substitution) =>
+					change.key.replace("*", substitution),
+				)
+			: [change.key];
+		const resolutions = subpaths.map((subpath) => ({
+			from: resolve_entry(from, subpath),
+			to: resolve_entry(to, subpath),
+		}));
+
+		if (
+			resolutions.length === 0 ||
+			resolutions.some(
+				(resolution) => collect_targets(resolution.to).length === 0,
+			)
+		) {
+			changes.push(to_subpath_change(change.kind, change));
+			continue;
+		}
+
+		const retargeted = resolutions.find(
+			(resolution) =>
+				JSON.stringify(resolution.from) !== JSON.stringify(resolution.to),
+		);
+
+		if (retargeted !== undefined) {
+			const [previous, next] =
+				change.kind === "removed"
+					? [retargeted.from, retargeted.to]
+					: [retargeted.to, retargeted.from];
+
+			changes.push(
+				to_subpath_change("retargeted", {
+					kind: "changed",
+					key: change.key,
+					previous,
+					next,
+				}),
+			);
+		}
+	}
+
+	return changes;
+};
+
+const to_subpath_change = (
+	kind: SubpathChange["kind"],
+	change: ExportChange,
+): SubpathChange => {
+	return { kind, subpath: change.key, release: RELEASES[kind], change };
+};
+
+/**
+ * Resolves the JavaScript and declaration files of a subpath, for import and require
+ *
+ * @example
+ * resolve_entry({ './*': { types: './dist/*.d.ts', import: './dist/*.js' } }, './utils')
+ * // { import: { types: './dist/utils.d.ts', default: './dist/utils.js' }, require: { types: undefined, default: undefined } }
+ */
+const resolve_entry = (exports: ExportMap, subpath: string) => {
+	const resolve = (conditions: string[]) =>
+		resolve_export_target(exports, subpath, conditions);
+
+	return {
+		import: {
+			types: resolve(["types", "node", "import"]),
+			default: resolve(["node", "import"]),
+		},
+		require: {
+			types: resolve(["types", "node", "require"]),
+			default: resolve(["node", "require"]),
+		},
+	};
+};
+
+/**
+ * Finds the release the changes require, undefined if there is none
+ *
+ * @example
+ * find_required_release([{ kind: 'added', ... }, { kind: 'retargeted', ... }]) // 'minor'
+ */
+export const find_required_release = (
+	changes: SubpathChange[],
+): ReleaseType | undefined => {
+	return (["major", "minor", "patch"] as const).find((release) =>
+		changes.some((change) => change.release === release),
+	);
+};
+
+/**
+ * Reads the exports field of package.json at a git ref, with the local git
+ *
+ * @param project_path - The absolute path of the project, inside a git repository
+ * @param ref - The git ref (e.g. "v1.2.0", "origin/main")
+ * @returns The exports field at the ref, undefined if package.json had none, or an error
+ * @example
+ * await read_git_baseline('/path/to/repo/packages/ui', 'v1.2.0')
+ * // { validated: true, data: { '.': { types: './dist/index.d.ts', import: './dist/index.js' } } }
+ */
+export const read_git_baseline = async (
+	project_path: string,
+	ref: string,
+): Promise<ValidationResult<unknown>> => {
+	try {
+		// package.json is read relative to the root of the repository
+		const { stdout: prefix } = await exec_file(
+			"git",
+			["rev-parse", "--show-prefix"],
+			{ cwd: project_path },
+		);
+		const { stdout: content } = await exec_file(
+			"git",
+			["show", `${ref}:${prefix.trim()}package.json`],
+			{ cwd: project_path, maxBuffer: 16 * 1024 * 1024 },
+		);
+
+		return { validated: true, data: JSON.parse(content).exports };
+	} catch (error) {
+		const { stderr, message } = error as { stderr?: string; message: string };
+		const [reason] = (stderr || message).trim().split(/\r?\n/);
+
+		return {
+			validated: false,
+			error: `Unable to read package.json at "${ref}": ${reason}`,
+		};
+	}
+};
+
+/**
+ * Reads the exports of a snapshot file, saved by write_snapshot or copied from a package.json
+ *
+ * @param snapshot_path - The absolute path of the snapshot file
+ * @returns The exports field of the snapshot, or an error
+ */
+export const read_snapshot_baseline = (
+	snapshot_path: string,
+): ValidationResult<unknown> => {
+	if (!fs.existsSync(snapshot_path)) {
+		return {
+			validated: false,
+			error: `Snapshot "${snapshot_path}" does not exist.`,
+		};
+	}
+
+	try {
+		return {
+			validated: true,
+			data: JSON.parse(fs.readFileSync(snapshot_path, "utf8")).exports,
+		};
+	} catch (error) {
+		return {
+			validated: false,
+			error: `Unable to read snapshot "${snapshot_path}": ${(error as Error).message}`,
+		};
+	}
+};
+
+/**
+ * Saves the exports as a snapshot, to compare later versions against
+ *
+ * @param snapshot_path - The absolute path of the snapshot file
+ * @param exports - The export map
+ */
+export const write_snapshot = (snapshot_path: string, exports: ExportMap) => {
+	fs.mkdirSync(path.dirname(snapshot_path), { recursive: true });
+	fs.writeFileSync(snapshot_path, `${JSON.stringify({ exports }, null, 2)}\n`);
+};
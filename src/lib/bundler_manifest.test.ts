@@ -0,0 +1,112 @@
+import fs from "node:fs";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { create_temp_directory } from "../test_utils";
+import {
+	read_bundler_manifest,
+	read_bundler_manifests,
+} from "./bundler_manifest";
+
+describe("read_bundler_manifest", () => {
+	let temp_dir: string;
+	let destination_path: string;
+
+	const write_manifest = (file_name: string, manifest: unknown) => {
+		const manifest_path = path.join(destination_path, file_name);
+		fs.writeFileSync(manifest_path, JSON.stringify(manifest));
+
+		return manifest_path;
+	};
+
+	beforeEach(() => {
+		temp_dir = create_temp_directory();
+		destination_path = path.join(temp_dir, "dist");
+		fs.mkdirSync(destination_path);
+	});
+
+	afterEach(() => {
+		fs.rmSync(temp_dir, { recursive: true, force: true });
+	});
+
+	it("should read the entry points of an esbuild metafile", () => {
+		const manifest_path = write_manifest("metafile-esm.json", {
+			inputs: {},
+			outputs: {
+				"dist/button.js": { entryPoint: "src/components/button.ts" },
+				"dist/button.js.map": {},
+				"dist/chunk-ABC123.js": {},
+			},
+		});
+
+		const result = read_bundler_manifest(
+			manifest_path,
+			temp_dir,
+			destination_path,
+		);
+
+		expect(result).toEqual({
+			validated: true,
+			data: new Map([
+				[
+					path.join(temp_dir, "src/components/button.ts"),
+					[path.join(temp_dir, "dist/button.js")],
+				],
+			]),
+		});
+	});
+
+	it("should read the entries of a Vite manifest", () => {
+		const manifest_path = write_manifest("manifest.json", {
+			"src/index.ts": { file: "index-4f2a.js", isEntry: true },
+			"_shared-9c1d.js": { file: "shared-9c1d.js" },
+		});
+
+		const result = read_bundler_manifest(
+			manifest_path,
+			temp_dir,
+			destination_path,
+		);
+
+		expect(result).toEqual({
+			validated: true,
+			data: new Map([
+				[
+					path.join(temp_dir, "src/index.ts"),
+					[path.join(destination_path, "index-4f2a.js")],
+				],
+			]),
+		});
+	});
+
+	it("should merge the outputs of several manifests", () => {
+		const esm_manifest_path = write_manifest("metafile-esm.json", {
+			outputs: { "dist/index.js": { entryPoint: "src/index.ts" } },
+		});
+		const cjs_manifest_path = write_manifest("metafile-cjs.json", {
+			outputs: { "dist/index.cjs": { entryPoint: "src/index.ts" } },
+		});
+
+		const result = read_bundler_manifests(
+			[esm_manifest_path, cjs_manifest_path],
+			temp_dir,
+			destination_path,
+		);
+
+		expect(
+			result.validated && result.data.get(path.join(temp_dir, "src/index.ts")),
+		).toEqual([
+			path.join(temp_dir, "dist/index.js"),
+			path.join(temp_dir, "dist/index.cjs"),
+		]);
+	});
+
+	it("should report a manifest that cannot be read", () => {
+		const result = read_bundler_manifests(
+			[path.join(destination_path, "missing.json")],
+			temp_dir,
+			destination_path,
+		);
+
+		expect(result.validated).toBe(false);
+	});
+});
@@ -0,0 +1,129 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { ValidationResult } from "../types.js";
+
+/**
+ * Output files of each entry point, indexed by the absolute path of the entry source file
+ */
+export type EntryOutputs = Map<string, string[]>;
+
+/**
+ * Reads the entry points of a bundler manifest or metafile
+ *
+ * Supported formats are esbuild metafiles, as written by tsup and esbuild ("outputs" with an "entryPoint"),
+ * and Vite manifests ("isEntry" with a "file"). Chunks and assets that are not entry points are ignored,
+ * so they can never be exposed as subpaths.
+ *
+ * @param manifest_path - The absolute path of the manifest
+ * @param project_path - The absolute path of the project, source and metafile paths are relative to it
+ * @param destination_path - The absolute path of the destination directory, Vite output paths are relative to it
+ * @returns The absolute output paths of each entry, or an error if the manifest cannot be read
+ * @example
+ * read_bundler_manifest('/path/to/project/dist/metafile-esm.json', '/path/to/project', '/path/to/project/dist')
+ * // { validated: true, data: Map { '/path/to/project/src/components/button.ts' => ['/path/to/project/dist/button.js'] } }
+ */
+export const read_bundler_manifest = (
+	manifest_path: string,
+	project_path: string,
+	destination_path: string,
+): ValidationResult<EntryOutputs> => {
+	let manifest: unknown;
+
+	try {
+		manifest = JSON.parse(fs.readFileSync(manifest_path, "utf8"));
+	} catch (error) {
+		return {
+			validated: false,
+			error: `Unable to read manifest "${manifest_path}": ${(error as Error).message}`,
+		};
+	}
+
+	if (typeof manifest !== "object" || manifest === null) {
+		return {
+			validated: false,
+			error: `Invalid manifest "${manifest_path}": expected an object.`,
+		};
+	}
+
+	const entry_outputs: EntryOutputs = new Map();
+	const add_output = (source_path: string, output_path: string) => {
+		const outputs = entry_outputs.get(source_path) ?? [];
+		outputs.push(output_path);
+		entry_outputs.set(source_path, outputs);
+	};
+
+	// esbuild metafile: { outputs: { "dist/button.js": { entryPoint: "src/components/button.ts" } } }
+	if ("outputs" in manifest) {
+		const outputs = (manifest as { outputs: Record<string, unknown> }).outputs;
+
+		for (const [output_path, output] of Object.entries(outputs ?? {})) {
+			const entry_point = (output as { entryPoint?: unknown })?.entryPoint;
+
+			if (typeof entry_point === "string") {
+				add_output(
+					path.resolve(project_path, entry_point),
+					path.resolve(project_path, output_path),
+				);
+			}
+		}
+
+		return { validated: true, data: entry_outputs };
+	}
+
+	// Vite manifest: { "src/components/button.ts": { file: "button.js", isEntry: true } }
+	for (const [source_path, chunk] of Object.entries(manifest)) {
+		const { file, isEntry } = (chunk ?? {}) as {
+			file?: unknown;
+			isEntry?: unknown;
+		};
+
+		if (isEntry === true && typeof file === "string") {
+			add_output(
+				path.resolve(project_path, source_path),
+				path.resolve(destination_path, file),
+			);
+		}
+	}
+
+	return { validated: true, data: entry_outputs };
+};
+
+/**
+ * Reads several manifests, typically one per output format, and merges their entries
+ *
+ * @param manifest_paths - The absolute paths of the manifests
+ * @param project_path - The absolute path of the project
+ * @param destination_path - The absolute path of the destination directory
+ * @returns The absolute output paths of each entry, or the error of the first manifest that cannot be read
+ * @example
+ * read_bundler_manifests(['/path/to/project/dist/metafile-esm.json', '/path/to/project/dist/metafile-cjs.json'], '/path/to/project', '/path/to/project/dist')
+ * // { validated: true, data: Map { '/path/to/project/src/index.ts' => ['/path/to/project/dist/index.js', '/path/to/project/dist/index.cjs'] } }
+ */
+export const read_bundler_manifests = (
+	manifest_paths: string[],
+	project_path: string,
+	destination_path: string,
+): ValidationResult<EntryOutputs> => {
+	const entry_outputs: EntryOutputs = new Map();
+
+	for (const manifest_path of manifest_paths) {
+		const manifest_validation = read_bundler_manifest(
+			manifest_path,
+			project_path,
+			destination_path,
+		);
+
+		if (!manifest_validation.validated) {
+			return manifest_validation;
+		}
+
+		for (const [source_path, outputs] of manifest_validation.data) {
+			entry_outputs.set(source_path, [
+				...(entry_outputs.get(source_path) ?? []),
+				...outputs,
+			]);
+		}
+	}
+
+	return { validated: true, data: entry_outputs };
+};
@@ -0,0 +1,183 @@
+import fs from "node:fs";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { create_temp_directory } from "../test_utils";
+import { DEFAULT_CONFIG, load_config, resolve_config } from "./config";
+
+describe("load_config", () => {
+	let temp_dir: string;
+
+	beforeEach(() => {
+		temp_dir = create_temp_directory();
+		fs.writeFileSync(
+			path.join(temp_dir, "package.json"),
+			JSON.stringify({ name: "test-package" }),
+		);
+	});
+
+	afterEach(() => {
+		fs.rmSync(temp_dir, { recursive: true, force: true });
+	});
+
+	it("should return an empty config when nothing is configured", async () => {
+		const result = await load_config(temp_dir);
+
+		expect(result).toEqual({ validated: true, data: { config: {} } });
+	});
+
+	it("should load xportify.config.json", async () => {
+		const config_path = path.join(temp_dir, "xportify.config.json");
+		fs.writeFileSync(
+			config_path,
+			JSON.stringify({ src: "./lib", exclude: ["**/fixtures/**"] }),
+		);
+
+		const result = await load_config(temp_dir);
+
+		expect(result).toEqual({
+			validated: true,
+			data: {
+				config: { src: "./lib", exclude: ["**/fixtures/**"] },
+				source: config_path,
+			},
+		});
+	});
+
+	it("should load the default export of xportify.config.mjs", async () => {
+		fs.writeFileSync(
+			path.join(temp_dir, "xportify.config.mjs"),
+			'export default { dist: "./build" };',
+		);
+
+		const result = await load_config(temp_dir);
+
+		expect(result.validated && result.data.config).toEqual({
+			dist: "./build",
+		});
+	});
+
+	it("should not look up xportify.config.ts", async () => {
+		fs.writeFileSync(
+			path.join(temp_dir, "xportify.config.ts"),
+			'export default { dist: "./build" };',
+		);
+
+		const result = await load_config(temp_dir);
+
+		expect(result).toEqual({ validated: true, data: { config: {} } });
+	});
+
+	it("should load the xportify key of package.json", async () => {
+		fs.writeFileSync(
+			path.join(temp_dir, "package.json"),
+			JSON.stringify({ name: "test-package", xportify: { write: true } }),
+		);
+
+		const result = await load_config(temp_dir);
+
+		expect(result.validated && result.data.config).toEqual({ write: true });
+	});
+
+	it("should prefer a config file over the package.json key", async () => {
+		fs.writeFileSync(
+			path.join(temp_dir, "package.json"),
+			JSON.stringify({ name: "test-package", xportify: { src: "./a" } }),
+		);
+		fs.writeFileSync(
+			path.join(temp_dir, "xportify.config.json"),
+			JSON.stringify({ src: "./b" }),
+		);
+
+		const result = await load_config(temp_dir);
+
+		expect(result.validated && result.data.config).toEqual({ src: "./b" });
+	});
+
+	it("should fail when an explicit config file does not exist", async () => {
+		const result = await load_config(
+			temp_dir,
+			path.join(temp_dir, "missing.json"),
+		);
+
+		expect(result.validated).toBe(false);
+	});
+
+	it("should fail when the configuration is not an object", async () => {
+		fs.writeFileSync(path.join(temp_dir, "xportify.config.json"), "[]");
+
+		const result = await load_config(temp_dir);
+
+		expect(result.validated).toBe(false);
+	});
+
+	it("should fail when an option has the wrong type", async () => {
+		fs.writeFileSync(
+			path.join(temp_dir, "package.json"),
+			JSON.stringify({
+				name: "test-package",
+				xportify: { conditions: "browser" },
+			}),
+		);
+
+		const result = await load_config(temp_dir);
+
+		expect(result).toEqual({
+			validated: false,
+			error: `Invalid configuration in "${path.join(temp_dir, "package.json")}#xportify": "conditions" must be an array of strings.`,
+		});
+	});
+
+	it.each([
+		[{ exclude: "**/internal/**" }, "exclude"],
+		[{ write: "yes" }, "write"],
+		[{ entries: { "./button": 1 } }, "entries"],
+		[{ manifest: [true] }, "manifest"],
+		[{ collisions: ["./foo"] }, "collisions"],
+		[
+			{ assets: [{ include: ["**/*.css"], root: "lib", conditions: [] }] },
+			"assets",
+		],
+		[
+			{ overrides: { ui: { preserve: "./package.json" } } },
+			"overrides.ui.preserve",
+		],
+	])("should name the invalid option of %j", async (config, key) => {
+		fs.writeFileSync(
+			path.join(temp_dir, "xportify.config.json"),
+			JSON.stringify(config),
+		);
+
+		const result = await load_config(temp_dir);
+
+		expect(!result.validated && result.error).toContain(`"${key}" must be`);
+	});
+});
+
+describe("resolve_config", () => {
+	it("should fall back to the default configuration", () => {
+		expect(resolve_config({}, {})).toEqual(DEFAULT_CONFIG);
+	});
+
+	it("should let CLI options take precedence over the configuration", () => {
+		const resolved = resolve_config(
+			{ src: "./lib", dist: "./build", write: true },
+			{ dist: "./out", write: false },
+		);
+
+		expect(resolved.src).toBe("./lib");
+		expect(resolved.dist).toBe("./out");
+		expect(resolved.write).toBe(false);
+	});
+
+	it("should ignore undefined CLI options", () => {
+		const resolved = resolve_config({ src: "./lib" }, { src: undefined });
+
+		expect(resolved.src).toBe("./lib");
+	});
+
+	it("should replace the default exclude list", () => {
+		const resolved = resolve_config({ exclude: ["**/internal/**"] }, {});
+
+		expect(resolved.exclude).toEqual(["**/internal/**"]);
+	});
+});
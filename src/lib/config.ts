@@ -0,0 +1,387 @@
+import fs from "node:fs";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import type { ValidationResult } from "../types.js";
+
+/**
+ * Options that can be set in a configuration file or in the "xportify" key of package.json
+ */
+export type XportifyConfig = {
+	/** Relative source directory */
+	src?: string;
+	/** Relative destination directory */
+	dist?: string;
+	/** Relative declaration directory, when declarations are not emitted next to the JavaScript files */
+	types?: string;
+	/** Relative path of the tsconfig used to infer the source, destination and declaration directories */
+	tsconfig?: string;
+	/** Write exports to package.json */
+	write?: boolean;
+	/** Fail if package.json exports differ from the generated ones */
+	check?: boolean;
+	/** Keep hand-written entries of package.json exports and only update generated ones */
+	merge?: boolean;
+	/** Hand-written subpaths kept as is when merging (e.g. "./package.json") */
+	preserve?: string[];
+	/** Only export the source files whose file-level JSDoc has a `@public` tag */
+	strict?: boolean;
+	/** Add the export targets that npm would not pack to the files field */
+	fix?: boolean;
+	/** Derive the main, module and types fields from the root export */
+	entryFields?: boolean;
+	/** Also generate the typesVersions field, for consumers using `moduleResolution: node10` */
+	typesVersions?: boolean;
+	/** Generate the sideEffects field from the exported CSS files and the side-effect files */
+	sideEffects?: boolean;
+	/** Extra side-effectful files or globs listed in sideEffects, relative to the project (e.g. "./dist/polyfills.js") */
+	sideEffectFiles?: string[];
+	/** Custom conditions matched by file-name suffixes (e.g. "client.browser.ts"), in priority order */
+	conditions?: string[];
+	/** Collapse directories whose subpaths all follow the same shape into subpath patterns */
+	patterns?: boolean;
+	/** Also generate the exports of jsr.json, deno.json or deno.jsonc, pointing at the TypeScript sources */
+	jsr?: boolean;
+	/** Removed subpaths accepted when comparing the exports with a baseline */
+	approvedRemovals?: string[];
+	/** Generate a browser import map from the exports, written to this path relative to the project, or printed if true */
+	importMap?: boolean | string;
+	/** URL prefix of the import map targets (e.g. "/node_modules/my-package/") */
+	importMapPrefix?: string;
+	/** Conditions selecting the import map targets, from the highest to the lowest priority */
+	importMapConditions?: string[];
+	/** Options of workspace packages, indexed by package name or directory relative to the workspace root */
+	overrides?: Record<string, XportifyConfig>;
+	/** Source files to export instead of mirroring the source tree, as a list or indexed by subpath */
+	entries?: string[] | Record<string, string>;
+	/** Bundler manifests or metafiles mapping entries to their output files, relative to the project */
+	manifest?: string | string[];
+	/** File exported for subpaths generated from several files, relative to the project (e.g. { "./foo": "src/foo/index.ts" }) */
+	collisions?: Record<string, string>;
+	/** Non-JavaScript files to export, replacing the default CSS files of the destination directory */
+	assets?: AssetType[];
+	/** Globs of source files to export, relative to the source directory */
+	include?: string[];
+	/** Globs of files that must never be exported, relative to the source or destination directory */
+	exclude?: string[];
+};
+
+/**
+ * Kind of non-JavaScript files exported as is, with their extension (e.g. "./tokens.json")
+ */
+export type AssetType = {
+	/** Globs of the asset files, relative to the root directory */
+	include: string[];
+	/** Directory the assets are exported from */
+	root: "src" | "dist";
+	/** Conditions of the export entry, in order, all pointing to the file (a plain target if empty) */
+	conditions: string[];
+};
+
+/**
+ * Configuration with every option resolved
+ */
+export type ResolvedConfig = Required<Omit<XportifyConfig, "types">> & {
+	types: string | undefined;
+};
+
+/**
+ * Configuration files looked up in the project directory, in order
+ */
+export const CONFIG_FILE_NAMES = [
+	"xportify.config.mjs",
+	"xportify.config.js",
+	"xportify.config.json",
+];
+
+/**
+ * Globs that are always excluded, whatever the configuration
+ */
+export const ALWAYS_EXCLUDED = ["**/node_modules/**", "**/dist/**"];
+
+export const DEFAULT_CONFIG: ResolvedConfig = {
+	src: "./src",
+	dist: "./dist",
+	types: undefined,
+	tsconfig: "tsconfig.json",
+	write: false,
+	check: false,
+	merge: false,
+	preserve: [],
+	strict: false,
+	fix: false,
+	entryFields: false,
+	typesVersions: false,
+	sideEffects: false,
+	sideEffectFiles: [],
+	conditions: [],
+	patterns: false,
+	jsr: false,
+	approvedRemovals: [],
+	importMap: false,
+	importMapPrefix: "./",
+	importMapConditions: ["browser", "import", "default"],
+	overrides: {},
+	entries: [],
+	manifest: [],
+	collisions: {},
+	assets: [{ include: ["**/*.css"], root: "dist", conditions: ["import"] }],
+	include: ["**/*.ts", "**/*.tsx", "**/*.js", "**/*.d.ts"],
+	exclude: ["**/*.stories.*", "**/stories/**", "**/vite-env.d.ts"],
+};
+
+/**
+ * Loads the project configuration
+ *
+ * The configuration comes from the explicit config path if provided, otherwise from the first
+ * xportify.config.{mjs,js,json} file found in the project, otherwise from the "xportify" key of package.json.
+ *
+ * @param project_path - The absolute path of the project
+ * @param config_path - An explicit path to a configuration file, relative to the current directory
+ * @returns The configuration, or an error if it cannot be loaded
+ * @example
+ * await load_config('/path/to/project')
+ * // { validated: true, data: { config: { exclude: ['**\/fixtures/**'] }, source: '/path/to/project/xportify.config.json' } }
+ */
+export const load_config = async (
+	project_path: string,
+	config_path?: string,
+): Promise<ValidationResult<{ config: XportifyConfig; source?: string }>> => {
+	const config_file_path =
+		config_path !== undefined
+			? path.resolve(process.cwd(), config_path)
+			: CONFIG_FILE_NAMES.map((name) => path.join(project_path, name)).find(
+					(file_path) => fs.existsSync(file_path),
+				);
+
+	if (config_file_path !== undefined) {
+		if (!fs.existsSync(config_file_path)) {
+			return {
+				validated: false,
+				error: `Config file "${config_file_path}" does not exist.`,
+			};
+		}
+
+		try {
+			const config = await read_config_file(config_file_path);
+
+			return validate_config(config, config_file_path);
+		} catch (error) {
+			return {
+				validated: false,
+				error: `Unable to load config file "${config_file_path}": ${(error as Error).message}`,
+			};
+		}
+	}
+
+	const package_json_path = path.join(project_path, "package.json");
+
+	if (!fs.existsSync(package_json_path)) {
+		return { validated: true, data: { config: {} } };
+	}
+
+	let package_json: { xportify?: unknown };
+	try {
+		package_json = JSON.parse(fs.readFileSync(package_json_path, "utf8"));
+	} catch (error) {
+		return {
+			validated: false,
+			error: `Unable to read "${package_json_path}": ${(error as Error).message}`,
+		};
+	}
+
+	if (package_json.xportify === undefined) {
+		return { validated: true, data: { config: {} } };
+	}
+
+	return validate_config(
+		package_json.xportify,
+		`${package_json_path}#xportify`,
+	);
+};
+
+/**
+ * Reads a JSON or JavaScript configuration file
+ */
+const read_config_file = async (config_file_path: string): Promise<unknown> => {
+	if (config_file_path.endsWith(".json")) {
+		return JSON.parse(fs.readFileSync(config_file_path, "utf8"));
+	}
+
+	const config_module = await import(pathToFileURL(config_file_path).href);
+
+	return config_module.default ?? config_module;
+};
+
+/**
+ * Checks that a loaded configuration is an object whose options have the expected types
+ */
+const validate_config = (
+	config: unknown,
+	source: string,
+): ValidationResult<{ config: XportifyConfig; source: string }> => {
+	if (!is_object(config)) {
+		return {
+			validated: false,
+			error: `Invalid configuration in "${source}": expected an object.`,
+		};
+	}
+
+	const invalid_field = find_invalid_field(config);
+	if (invalid_field !== undefined) {
+		return {
+			validated: false,
+			error: `Invalid configuration in "${source}": "${invalid_field.key}" must be ${invalid_field.expected}.`,
+		};
+	}
+
+	return {
+		validated: true,
+		data: { config: config as XportifyConfig, source },
+	};
+};
+
+const is_object = (value: unknown): value is Record<string, unknown> =>
+	typeof value === "object" && value !== null && !Array.isArray(value);
+
+const is_string = (value: unknown): value is string =>
+	typeof value === "string";
+
+const is_boolean = (value: unknown): value is boolean =>
+	typeof value === "boolean";
+
+const is_string_array = (value: unknown): value is string[] =>
+	Array.isArray(value) && value.every(is_string);
+
+const is_string_record = (value: unknown): value is Record<string, string> =>
+	is_object(value) && Object.values(value).every(is_string);
+
+const is_asset_type = (value: unknown): value is AssetType =>
+	is_object(value) &&
+	is_string_array(value.include) &&
+	(value.root === "src" || value.root === "dist") &&
+	is_string_array(value.conditions);
+
+/**
+ * Expected type of each option, the overrides being checked like a configuration of their own
+ */
+const CONFIG_FIELDS: Record<
+	Exclude<keyof XportifyConfig, "overrides">,
+	{ expected: string; check: (value: unknown) => boolean }
+> = {
+	src: { expected: "a string", check: is_string },
+	dist: { expected: "a string", check: is_string },
+	types: { expected: "a string", check: is_string },
+	tsconfig: { expected: "a string", check: is_string },
+	write: { expected: "a boolean", check: is_boolean },
+	check: { expected: "a boolean", check: is_boolean },
+	merge: { expected: "a boolean", check: is_boolean },
+	preserve: { expected: "an array of strings", check: is_string_array },
+	strict: { expected: "a boolean", check: is_boolean },
+	fix: { expected: "a boolean", check: is_boolean },
+	entryFields: { expected: "a boolean", check: is_boolean },
+	typesVersions: { expected: "a boolean", check: is_boolean },
+	sideEffects: { expected: "a boolean", check: is_boolean },
+	sideEffectFiles: { expected: "an array of strings", check: is_string_array },
+	conditions: { expected: "an array of strings", check: is_string_array },
+	patterns: { expected: "a boolean", check: is_boolean },
+	jsr: { expected: "a boolean", check: is_boolean },
+	approvedRemovals: { expected: "an array of strings", check: is_string_array },
+	importMap: {
+		expected: "a boolean or a string",
+		check: (value) => is_boolean(value) || is_string(value),
+	},
+	importMapPrefix: { expected: "a string", check: is_string },
+	importMapConditions: {
+		expected: "an array of strings",
+		check: is_string_array,
+	},
+	entries: {
+		expected: "an array of strings or an object of strings",
+		check: (value) => is_string_array(value) || is_string_record(value),
+	},
+	manifest: {
+		expected: "a string or an array of strings",
+		check: (value) => is_string(value) || is_string_array(value),
+	},
+	collisions: { expected: "an object of strings", check: is_string_record },
+	assets: {
+		expected:
+			'an array of { include: string[], root: "src" | "dist", conditions: string[] }',
+		check: (value) => Array.isArray(value) && value.every(is_asset_type),
+	},
+	include: { expected: "an array of strings", check: is_string_array },
+	exclude: { expected: "an array of strings", check: is_string_array },
+};
+
+/**
+ * Finds the first option of a configuration whose value does not have the expected type
+ *
+ * @example
+ * find_invalid_field({ conditions: 'browser' })
+ * // { key: 'conditions', expected: 'an array of strings' }
+ * find_invalid_field({ overrides: { ui: { exclude: '**\/internal/**' } } })
+ * // { key: 'overrides.ui.exclude', expected: 'an array of strings' }
+ */
+const find_invalid_field = (
+	config: Record<string, unknown>,
+): { key: string; expected: string } | undefined => {
+	for (const [key, value] of Object.entries(config)) {
+		if (value === undefined) {
+			continue;
+		}
+
+		if (key === "overrides") {
+			if (!is_object(value)) {
+				return { key, expected: "an object of configurations" };
+			}
+
+			for (const [name, override] of Object.entries(value)) {
+				if (!is_object(override)) {
+					return { key: `${key}.${name}`, expected: "an object" };
+				}
+
+				const invalid_field = find_invalid_field(override);
+				if (invalid_field !== undefined) {
+					return {
+						key: `${key}.${name}.${invalid_field.key}`,
+						expected: invalid_field.expected,
+					};
+				}
+			}
+			continue;
+		}
+
+		const field = CONFIG_FIELDS[key as keyof typeof CONFIG_FIELDS];
+		if (field !== undefined && !field.check(value)) {
+			return { key, expected: field.expected };
+		}
+	}
+
+	return undefined;
+};
+
+/**
+ * Merges the default configuration with the given layers of options
+ *
+ * Later layers take precedence over earlier ones, typically the options inferred from tsconfig,
+ * then the project configuration, then the CLI options. Undefined options are ignored.
+ *
+ * @param layers - The options, from the lowest to the highest precedence
+ * @returns The resolved configuration
+ * @example
+ * resolve_config({ src: './lib', write: true }, { write: false })
+ * // { ...DEFAULT_CONFIG, src: './lib', write: false }
+ */
+export const resolve_config = (...layers: XportifyConfig[]): ResolvedConfig => {
+	const resolved: ResolvedConfig = { ...DEFAULT_CONFIG };
+
+	for (const options of layers) {
+		for (const [key, value] of Object.entries(options)) {
+			if (value !== undefined && key in DEFAULT_CONFIG) {
+				Object.assign(resolved, { [key]: value });
+			}
+		}
+	}
+
+	return resolved;
+};
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { derive_entry_fields, diff_entry_fields } from "./entry_fields";
+
+describe("derive_entry_fields", () => {
+	it("should point main and types to the CommonJS build where it exists", () => {
+		const fields = derive_entry_fields(
+			{
+				".": {
+					import: { types: "./dist/index.d.ts", default: "./dist/index.js" },
+					require: { types: "./dist/index.d.cts", default: "./dist/index.cjs" },
+				},
+			},
+			{},
+		);
+
+		expect(fields).toEqual({
+			main: "./dist/index.cjs",
+			module: "./dist/index.js",
+			types: "./dist/index.d.cts",
+		});
+	});
+
+	it("should point main to the ESM build otherwise", () => {
+		const fields = derive_entry_fields(
+			{ ".": { types: "./dist/index.d.ts", import: "./dist/index.js" } },
+			{ main: "dist/index.js" },
+		);
+
+		expect(fields).toEqual({
+			main: "dist/index.js",
+			module: "./dist/index.js",
+			types: "./dist/index.d.ts",
+		});
+	});
+
+	it("should remove module for a CommonJS only root entry", () => {
+		const fields = derive_entry_fields(
+			{ ".": { require: { default: "./dist/index.cjs" } } },
+			{},
+		);
+
+		expect(fields).toEqual({
+			main: "./dist/index.cjs",
+			module: undefined,
+			types: undefined,
+		});
+	});
+
+	it("should use the default entry of platform variants", () => {
+		const fields = derive_entry_fields(
+			{
+				".": {
+					browser: { import: "./dist/index.browser.js" },
+					default: { types: "./dist/index.d.ts", import: "./dist/index.js" },
+				},
+			},
+			{},
+		);
+
+		expect(fields).toEqual({
+			main: "./dist/index.js",
+			module: "./dist/index.js",
+			types: "./dist/index.d.ts",
+		});
+	});
+
+	it("should return undefined without root entry", () => {
+		expect(
+			derive_entry_fields({ "./utils": { import: "./dist/utils.js" } }, {}),
+		).toBeUndefined();
+	});
+});
+
+describe("diff_entry_fields", () => {
+	it("should list the existing fields that disagree", () => {
+		const mismatched = diff_entry_fields(
+			{ main: "dist/index.js", module: "./dist/old.js" },
+			{
+				main: "./dist/index.js",
+				module: "./dist/index.js",
+				types: "./dist/index.d.ts",
+			},
+		);
+
+		expect(mismatched).toEqual(["module"]);
+	});
+});
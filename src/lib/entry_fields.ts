@@ -0,0 +1,138 @@
+/**
+ * Top-level package.json fields describing the root entry, for tools that ignore exports
+ */
+export type EntryFields = {
+	main: string | undefined;
+	module: string | undefined;
+	types: string | undefined;
+};
+
+export const ENTRY_FIELD_NAMES: (keyof EntryFields)[] = [
+	"main",
+	"module",
+	"types",
+];
+
+/**
+ * Derives main, module and types from the root entry of an export map
+ *
+ * `main` points to the CommonJS build where it exists, otherwise to the ESM build, and `types` to the
+ * declarations of the same build. `module` points to the ESM build. A field whose value only differs
+ * from the current one by a leading "./" keeps its current value.
+ *
+ * @param exports - The export map
+ * @param current - The current package.json
+ * @returns The derived fields, undefined for fields to remove, or undefined if there is no root entry
+ * @example
+ * derive_entry_fields({
+ *   '.': {
+ *     import: { types: './dist/index.d.ts', default: './dist/index.js' },
+ *     require: { types: './dist/index.d.cts', default: './dist/index.cjs' },
+ *   },
+ * }, { main: 'dist/index.cjs' })
+ * // { main: 'dist/index.cjs', module: './dist/index.js', types: './dist/index.d.cts' }
+ */
+export const derive_entry_fields = (
+	exports: Record<string, unknown>,
+	current: Record<string, unknown>,
+): EntryFields | undefined => {
+	const root_entry = exports["."];
+
+	if (root_entry === undefined || root_entry === null) {
+		return undefined;
+	}
+
+	const esm = read_format(root_entry, "import");
+	const cjs = read_format(root_entry, "require");
+	const main_format = cjs.default !== undefined ? cjs : esm;
+
+	const keep_current = (
+		field: keyof EntryFields,
+		value: string | undefined,
+	) => {
+		const current_value = current[field];
+
+		return typeof current_value === "string" &&
+			value !== undefined &&
+			normalize_path(current_value) === normalize_path(value)
+			? current_value
+			: value;
+	};
+
+	return {
+		main: keep_current("main", main_format.default),
+		module: keep_current("module", esm.default),
+		types: keep_current("types", main_format.types ?? esm.types),
+	};
+};
+
+/**
+ * Lists the fields of package.json that disagree with the derived ones
+ *
+ * Fields missing from package.json are not reported.
+ *
+ * @param current - The current package.json
+ * @param derived - The fields derived from the root entry
+ * @returns The disagreeing field names
+ * @example
+ * diff_entry_fields({ main: './dist/old.js' }, { main: './dist/index.js', module: './dist/index.js', types: undefined })
+ * // ['main']
+ */
+export const diff_entry_fields = (
+	current: Record<string, unknown>,
+	derived: EntryFields,
+): (keyof EntryFields)[] => {
+	return ENTRY_FIELD_NAMES.filter(
+		(field) =>
+			current[field] !== undefined &&
+			(typeof current[field] !== "string" ||
+				derived[field] === undefined ||
+				normalize_path(current[field] as string) !==
+					normalize_path(derived[field] as string)),
+	);
+};
+
+/**
+ * Reads the JavaScript and declaration targets of a module format in an export entry
+ */
+const read_format = (
+	entry: unknown,
+	condition: "import" | "require",
+): { default?: string; types?: string } => {
+	if (typeof entry === "string") {
+		return { default: entry };
+	}
+
+	if (typeof entry !== "object" || entry === null) {
+		return {};
+	}
+
+	const conditions = entry as Record<string, unknown>;
+	const format = conditions[condition];
+	const top_level_types =
+		typeof conditions.types === "string" ? conditions.types : undefined;
+
+	if (typeof format === "string") {
+		return { default: format, types: top_level_types };
+	}
+
+	if (typeof format === "object" && format !== null) {
+		const nested = format as Record<string, unknown>;
+
+		return {
+			default: typeof nested.default === "string" ? nested.default : undefined,
+			types: typeof nested.types === "string" ? nested.types : top_level_types,
+		};
+	}
+
+	// platform variants grouped under custom conditions fall back to the "default" entry
+	if (typeof conditions.default === "object") {
+		return read_format(conditions.default, condition);
+	}
+
+	return {};
+};
+
+const normalize_path = (file_path: string): string => {
+	return file_path.replace(/^\.\//, "");
+};
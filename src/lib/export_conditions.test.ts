@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import {
+	group_condition_variants,
+	split_condition_suffix,
+} from "./export_conditions";
+
+describe("split_condition_suffix", () => {
+	it("should split a condition suffix off the file name", () => {
+		expect(
+			split_condition_suffix("rsc/index.react-server.tsx", [
+				"react-server",
+				"browser",
+			]),
+		).toEqual({ base_file_path: "rsc/index.tsx", condition: "react-server" });
+	});
+
+	it("should leave other files untouched", () => {
+		expect(split_condition_suffix("utils/browser.ts", ["browser"])).toEqual({
+			base_file_path: "utils/browser.ts",
+		});
+		expect(split_condition_suffix("client.web.ts", ["browser"])).toEqual({
+			base_file_path: "client.web.ts",
+		});
+	});
+});
+
+describe("group_condition_variants", () => {
+	it("should order the variants like the conditions, with the base file as default", () => {
+		const result = group_condition_variants(
+			[
+				{
+					export_path: "./client",
+					entry: { import: "./dist/client.browser.js" },
+					file_path: "src/client.browser.ts",
+					condition: "browser",
+				},
+				{
+					export_path: "./client",
+					entry: { import: "./dist/client.js" },
+					file_path: "src/client.ts",
+				},
+				{
+					export_path: "./client",
+					entry: { import: "./dist/client.node.js" },
+					file_path: "src/client.node.ts",
+					condition: "node",
+				},
+				{
+					export_path: "./utils",
+					entry: { import: "./dist/utils.js" },
+					file_path: "src/utils.ts",
+				},
+			],
+			["node", "browser"],
+		);
+
+		expect(result).toEqual([
+			{
+				export_path: "./client",
+				entry: {
+					node: { import: "./dist/client.node.js" },
+					browser: { import: "./dist/client.browser.js" },
+					default: { import: "./dist/client.js" },
+				},
+				file_path: "src/client.ts",
+			},
+			{
+				export_path: "./utils",
+				entry: { import: "./dist/utils.js" },
+				file_path: "src/utils.ts",
+			},
+		]);
+	});
+
+	it("should leave duplicate variants to the collision check", () => {
+		const candidates = [
+			{
+				export_path: "./client",
+				entry: { import: "./dist/client.browser.js" },
+				file_path: "src/client.browser.ts",
+				condition: "browser",
+			},
+			{
+				export_path: "./client",
+				entry: { import: "./dist/client/index.browser.js" },
+				file_path: "src/client/index.browser.ts",
+				condition: "browser",
+			},
+		];
+
+		expect(group_condition_variants(candidates, ["browser"])).toEqual(
+			candidates,
+		);
+	});
+});
@@ -0,0 +1,131 @@
+import path from "node:path";
+import type { ConditionalExportEntry, ExportEntry } from "../types.js";
+import type { ExportCandidate } from "./exports_collisions.js";
+
+/**
+ * Splits the custom condition suffix off the name of a source file
+ *
+ * @param file_path - The relative path of the source file
+ * @param conditions - The custom conditions matched by file-name suffixes
+ * @returns The path of the base file, and the condition if the file is a platform variant
+ * @example
+ * split_condition_suffix('client.browser.ts', ['browser', 'node'])
+ * // { base_file_path: 'client.ts', condition: 'browser' }
+ * split_condition_suffix('utils/helper.ts', ['browser', 'node'])
+ * // { base_file_path: 'utils/helper.ts' }
+ */
+export const split_condition_suffix = (
+	file_path: string,
+	conditions: string[],
+): { base_file_path: string; condition?: string } => {
+	const extension = path.extname(file_path);
+	const name = file_path.slice(0, file_path.length - extension.length);
+	const condition = conditions.find(
+		(condition) =>
+			name.endsWith(`.${condition}`) &&
+			!name.endsWith(`/.${condition}`) &&
+			name !== `.${condition}`,
+	);
+
+	if (condition === undefined) {
+		return { base_file_path: file_path };
+	}
+
+	return {
+		base_file_path: `${name.slice(0, name.length - condition.length - 1)}${extension}`,
+		condition,
+	};
+};
+
+/**
+ * Groups the platform variants of a subpath into a single conditional entry
+ *
+ * The variants are ordered like the conditions, and the base file, if any, comes last as the
+ * "default" fallback. A subpath with several base files or several variants of the same condition
+ * is left as is, to be reported as a collision.
+ *
+ * @param candidates - The export candidates, in processing order
+ * @param conditions - The custom conditions, in priority order
+ * @returns The candidates with a single one per grouped subpath
+ * @example
+ * group_condition_variants([
+ *   { export_path: './client', entry: { import: './dist/client.js' }, file_path: 'src/client.ts' },
+ *   { export_path: './client', entry: { import: './dist/client.browser.js' }, file_path: 'src/client.browser.ts', condition: 'browser' },
+ * ], ['browser', 'node'])
+ * // [{
+ * //   export_path: './client',
+ * //   entry: { browser: { import: './dist/client.browser.js' }, default: { import: './dist/client.js' } },
+ * //   file_path: 'src/client.ts',
+ * // }]
+ */
+export const group_condition_variants = (
+	candidates: ExportCandidate[],
+	conditions: string[],
+): ExportCandidate[] => {
+	const variant_paths = new Set(
+		candidates
+			.filter((candidate) => candidate.condition !== undefined)
+			.map((candidate) => candidate.export_path),
+	);
+
+	if (variant_paths.size === 0) {
+		return candidates;
+	}
+
+	const grouped: ExportCandidate[] = [];
+	const processed = new Set<string>();
+
+	for (const candidate of candidates) {
+		const { export_path } = candidate;
+
+		if (!variant_paths.has(export_path)) {
+			grouped.push(candidate);
+			continue;
+		}
+
+		if (processed.has(export_path)) {
+			continue;
+		}
+		processed.add(export_path);
+
+		const competing = candidates.filter(
+			(other) => other.export_path === export_path,
+		);
+		const bases = competing.filter((other) => other.condition === undefined);
+		const variants = competing.filter((other) => other.condition !== undefined);
+		const has_duplicates =
+			new Set(variants.map((variant) => variant.condition)).size <
+			variants.length;
+
+		if (bases.length > 1 || has_duplicates) {
+			grouped.push(...competing);
+			continue;
+		}
+
+		const entry: ConditionalExportEntry = {};
+
+		for (const condition of conditions) {
+			const variant = variants.find(
+				(variant) => variant.condition === condition,
+			);
+
+			if (variant !== undefined) {
+				entry[condition] = variant.entry as ExportEntry;
+			}
+		}
+
+		const [base] = bases;
+
+		if (base !== undefined) {
+			entry.default = base.entry as ExportEntry;
+		}
+
+		grouped.push({
+			export_path,
+			entry,
+			file_path: (base ?? variants[0]).file_path,
+		});
+	}
+
+	return grouped;
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { collect_targets, map_targets } from "./export_targets";
+
+describe("collect_targets", () => {
+	it("should collect nested targets in condition order", () => {
+		expect(
+			collect_targets({
+				import: { types: "./dist/a.d.ts", default: "./dist/a.js" },
+				require: ["./dist/a.cjs"],
+				browser: null,
+			}),
+		).toEqual(["./dist/a.d.ts", "./dist/a.js", "./dist/a.cjs"]);
+	});
+});
+
+describe("map_targets", () => {
+	it("should map every target and drop undefined conditions", () => {
+		expect(
+			map_targets(
+				{ types: "./dist/a.d.ts", import: "./dist/a.js", require: undefined },
+				(target) => target.replace("/a.", "/*."),
+			),
+		).toEqual({ types: "./dist/*.d.ts", import: "./dist/*.js" });
+	});
+
+	it("should return undefined when a target cannot be mapped", () => {
+		expect(
+			map_targets(
+				{ import: "./dist/a.js", types: "./types/b.d.ts" },
+				(target) => (target.includes("/a.") ? target : undefined),
+			),
+		).toBeUndefined();
+	});
+});
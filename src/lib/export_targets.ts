@@ -0,0 +1,71 @@
+/**
+ * Collects every target path of an export entry, in condition order
+ *
+ * @param entry - A target, a conditions object or an array of targets
+ * @returns The target paths
+ * @example
+ * collect_targets({ types: './dist/a.d.ts', import: { default: './dist/a.js' } })
+ * // ['./dist/a.d.ts', './dist/a.js']
+ */
+export const collect_targets = (entry: unknown): string[] => {
+	if (typeof entry === "string") {
+		return [entry];
+	}
+
+	if (Array.isArray(entry)) {
+		return entry.flatMap(collect_targets);
+	}
+
+	if (typeof entry === "object" && entry !== null) {
+		return Object.values(entry).flatMap(collect_targets);
+	}
+
+	return [];
+};
+
+/**
+ * Maps every target path of an export entry, keeping its conditions and their order
+ *
+ * @param entry - A target, a conditions object or an array of targets
+ * @param map_target - The function applied to each target path
+ * @returns The mapped entry, or undefined if a target cannot be mapped
+ * @example
+ * map_targets({ import: './dist/a.js' }, (target) => target.replace('a', '*'))
+ * // { import: './dist/*.js' }
+ */
+export const map_targets = <TEntry>(
+	entry: TEntry,
+	map_target: (target: string) => string | undefined,
+): TEntry | undefined => {
+	if (typeof entry === "string") {
+		return map_target(entry) as TEntry | undefined;
+	}
+
+	if (Array.isArray(entry)) {
+		const mapped = entry.map((item) => map_targets(item, map_target));
+
+		return mapped.includes(undefined) ? undefined : (mapped as TEntry);
+	}
+
+	if (typeof entry === "object" && entry !== null) {
+		const mapped: Record<string, unknown> = {};
+
+		for (const [condition, value] of Object.entries(entry)) {
+			if (value === undefined) {
+				continue;
+			}
+
+			const mapped_value = map_targets(value, map_target);
+
+			if (mapped_value === undefined) {
+				return undefined;
+			}
+
+			mapped[condition] = mapped_value;
+		}
+
+		return mapped as TEntry;
+	}
+
+	return entry;
+};
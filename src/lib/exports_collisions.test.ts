@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import {
+	type ExportCandidate,
+	format_export_collision,
+	resolve_export_collisions,
+} from "./exports_collisions";
+
+const candidates: ExportCandidate[] = [
+	{
+		export_path: ".",
+		entry: { import: "./dist/index.js" },
+		file_path: "src/index.ts",
+	},
+	{
+		export_path: "./foo",
+		entry: { import: "./dist/foo.js" },
+		file_path: "src/foo.ts",
+	},
+	{
+		export_path: "./foo",
+		entry: { import: "./dist/foo/index.js" },
+		file_path: "src/foo/index.ts",
+	},
+];
+
+describe("resolve_export_collisions", () => {
+	it("should report the files competing for a subpath", () => {
+		const result = resolve_export_collisions(candidates, {});
+
+		expect(result.collisions).toEqual([
+			{ export_path: "./foo", file_paths: ["src/foo.ts", "src/foo/index.ts"] },
+		]);
+		expect(Object.keys(result.exports)).toEqual([".", "./foo"]);
+	});
+
+	it("should keep the configured winner", () => {
+		const result = resolve_export_collisions(candidates, {
+			"./foo": "./src/foo.ts",
+		});
+
+		expect(result).toEqual({
+			exports: {
+				".": { import: "./dist/index.js" },
+				"./foo": { import: "./dist/foo.js" },
+			},
+			collisions: [],
+		});
+	});
+
+	it("should report a configured winner that is not competing", () => {
+		const result = resolve_export_collisions(candidates, {
+			"./foo": "src/bar.ts",
+		});
+
+		expect(format_export_collision(result.collisions[0])).toBe(
+			'Subpath "./foo" is generated from several files: src/foo.ts, src/foo/index.ts. The configured winner "src/bar.ts" is not one of them.',
+		);
+	});
+});
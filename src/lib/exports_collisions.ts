@@ -0,0 +1,118 @@
+import type {
+	AssetExportEntry,
+	ConditionalExportEntry,
+	ExportEntry,
+	ExportMap,
+} from "../types.js";
+
+/**
+ * Export entry generated from a single file
+ */
+export type ExportCandidate = {
+	/** The subpath generated for the file */
+	export_path: string;
+	entry: ExportEntry | ConditionalExportEntry | AssetExportEntry;
+	/** The path of the source or asset file, relative to the project (e.g. "src/foo.ts") */
+	file_path: string;
+	/** The custom condition of a platform variant (e.g. "browser" for "src/client.browser.ts") */
+	condition?: string;
+};
+
+/**
+ * Subpath generated from several files, without a configured winner
+ */
+export type ExportCollision = {
+	export_path: string;
+	/** The competing files, relative to the project */
+	file_paths: string[];
+	/** The configured winner, when it is not one of the competing files */
+	winner?: string;
+};
+
+/**
+ * Builds the export map of the candidates, keeping a single file per subpath
+ *
+ * When several files generate the same subpath (e.g. `src/foo.ts` and `src/foo/index.ts` for `./foo`),
+ * the winner configured for this subpath is kept. Otherwise the collision is reported and the last
+ * file processed is kept.
+ *
+ * @param candidates - The export entries generated from each file, in processing order
+ * @param winners - The file kept for each colliding subpath, relative to the project
+ * @returns The export map and the unresolved collisions
+ * @example
+ * resolve_export_collisions([
+ *   { export_path: './foo', entry: { import: './dist/foo.js' }, file_path: 'src/foo.ts' },
+ *   { export_path: './foo', entry: { import: './dist/foo/index.js' }, file_path: 'src/foo/index.ts' },
+ * ], { './foo': 'src/foo/index.ts' })
+ * // { exports: { './foo': { import: './dist/foo/index.js' } }, collisions: [] }
+ */
+export const resolve_export_collisions = (
+	candidates: ExportCandidate[],
+	winners: Record<string, string>,
+): { exports: ExportMap; collisions: ExportCollision[] } => {
+	const candidates_by_path = new Map<string, ExportCandidate[]>();
+
+	for (const candidate of candidates) {
+		candidates_by_path.set(candidate.export_path, [
+			...(candidates_by_path.get(candidate.export_path) ?? []),
+			candidate,
+		]);
+	}
+
+	const exports: ExportMap = {};
+	const collisions: ExportCollision[] = [];
+
+	for (const [export_path, competing] of candidates_by_path) {
+		const last = competing[competing.length - 1];
+
+		if (competing.length === 1) {
+			exports[export_path] = last.entry;
+			continue;
+		}
+
+		const file_paths = competing.map((candidate) => candidate.file_path);
+		const winner = winners[export_path];
+		const winning = competing.find(
+			(candidate) =>
+				winner !== undefined &&
+				normalize_file_path(candidate.file_path) ===
+					normalize_file_path(winner),
+		);
+
+		if (winning !== undefined) {
+			exports[export_path] = winning.entry;
+		} else {
+			exports[export_path] = last.entry;
+			collisions.push(
+				winner === undefined
+					? { export_path, file_paths }
+					: { export_path, file_paths, winner },
+			);
+		}
+	}
+
+	return { exports, collisions };
+};
+
+/**
+ * Formats a collision as a diagnostic message
+ *
+ * @param collision - The unresolved collision
+ * @returns The message listing the competing files
+ * @example
+ * format_export_collision({ export_path: './foo', file_paths: ['src/foo.ts', 'src/foo/index.ts'] })
+ * // 'Subpath "./foo" is generated from several files: src/foo.ts, src/foo/index.ts. Pick the one to export in the "collisions" option.'
+ */
+export const format_export_collision = (collision: ExportCollision): string => {
+	const files = collision.file_paths.join(", ");
+
+	if (collision.winner !== undefined) {
+		return `Subpath "${collision.export_path}" is generated from several files: ${files}. The configured winner "${collision.winner}" is not one of them.`;
+	}
+
+	return `Subpath "${collision.export_path}" is generated from several files: ${files}. Pick the one to export in the "collisions" option.`;
+};
+
+const normalize_file_path = (file_path: string): string => {
+	return file_path.replace(/\\/g, "/").replace(/^\.\//, "");
+};
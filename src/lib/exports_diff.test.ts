@@ -0,0 +1,145 @@
+import { describe, expect, it } from "vitest";
+import {
+	diff_exports,
+	format_exports_diff,
+	normalize_exports,
+} from "./exports_diff";
+
+describe("normalize_exports", () => {
+	it("should return an empty map when exports is missing", () => {
+		expect(normalize_exports(undefined)).toEqual({});
+	});
+
+	it("should map a string exports to the root subpath", () => {
+		expect(normalize_exports("./dist/index.js")).toEqual({
+			".": "./dist/index.js",
+		});
+	});
+
+	it("should map a conditions object to the root subpath", () => {
+		expect(normalize_exports({ import: "./dist/index.js" })).toEqual({
+			".": { import: "./dist/index.js" },
+		});
+	});
+
+	it("should keep a subpath map as is", () => {
+		const exports = { ".": "./dist/index.js", "./utils": "./dist/utils.js" };
+
+		expect(normalize_exports(exports)).toEqual(exports);
+	});
+});
+
+describe("diff_exports", () => {
+	it("should return no changes when exports are identical", () => {
+		const exports = {
+			".": { types: "./dist/index.d.ts", import: "./dist/index.js" },
+		};
+
+		expect(diff_exports(structuredClone(exports), exports)).toEqual([]);
+	});
+
+	it("should ignore undefined values of the generated entries", () => {
+		const current = { "./types": { types: "./dist/types/index.d.ts" } };
+		const generated = {
+			"./types": { types: "./dist/types/index.d.ts", import: undefined },
+		};
+
+		expect(diff_exports(current, generated)).toEqual([]);
+	});
+
+	it("should report added, removed and changed subpaths", () => {
+		const current = {
+			".": { import: "./dist/old.js" },
+			"./legacy": { import: "./dist/legacy.js" },
+			"./utils": { import: "./dist/utils.js" },
+		};
+		const generated = {
+			".": { import: "./dist/index.js" },
+			"./utils": { import: "./dist/utils.js" },
+			"./helpers": { import: "./dist/helpers.js" },
+		};
+
+		expect(diff_exports(current, generated)).toEqual([
+			{
+				kind: "removed",
+				key: "./legacy",
+				previous: { import: "./dist/legacy.js" },
+			},
+			{
+				kind: "changed",
+				key: ".",
+				previous: { import: "./dist/old.js" },
+				next: { import: "./dist/index.js" },
+			},
+			{
+				kind: "added",
+				key: "./helpers",
+				next: { import: "./dist/helpers.js" },
+			},
+		]);
+	});
+
+	it("should report a different condition order as a change", () => {
+		const current = {
+			".": { import: "./dist/index.js", types: "./dist/index.d.ts" },
+		};
+		const generated = {
+			".": { types: "./dist/index.d.ts", import: "./dist/index.js" },
+		};
+
+		expect(diff_exports(current, generated)).toHaveLength(1);
+	});
+});
+
+describe("format_exports_diff", () => {
+	it("should format one line per change followed by its targets", () => {
+		const lines = format_exports_diff([
+			{ kind: "added", key: "./new", next: { import: "./dist/new.js" } },
+			{ kind: "removed", key: "./old", previous: "./dist/old.js" },
+		]);
+
+		expect(lines).toHaveLength(4);
+		expect(lines[0]).toContain("+ ./new (added)");
+		expect(lines[1]).toContain("import: ./dist/new.js");
+		expect(lines[2]).toContain("- ./old (removed)");
+		expect(lines[3]).toContain("./dist/old.js");
+	});
+
+	it("should list the old and new targets of changed conditions", () => {
+		const lines = format_exports_diff([
+			{
+				kind: "changed",
+				key: ".",
+				previous: {
+					import: { types: "./dist/index.d.ts", default: "./dist/old.js" },
+					require: "./dist/index.cjs",
+				},
+				next: {
+					import: { types: "./dist/index.d.ts", default: "./dist/index.js" },
+					browser: "./dist/index.browser.js",
+				},
+			},
+		]);
+
+		expect(lines).toHaveLength(4);
+		expect(lines[0]).toContain("~ . (changed)");
+		expect(lines[1]).toContain(
+			"~ import.default: ./dist/old.js → ./dist/index.js",
+		);
+		expect(lines[2]).toContain("- require: ./dist/index.cjs");
+		expect(lines[3]).toContain("+ browser: ./dist/index.browser.js");
+	});
+
+	it("should report a change of condition order", () => {
+		const lines = format_exports_diff([
+			{
+				kind: "changed",
+				key: ".",
+				previous: { import: "./dist/index.js", types: "./dist/index.d.ts" },
+				next: { types: "./dist/index.d.ts", import: "./dist/index.js" },
+			},
+		]);
+
+		expect(lines[1]).toContain("~ condition order");
+	});
+});
@@ -0,0 +1,201 @@
+import chalk from "chalk";
+import type { ExportMap } from "../types.js";
+
+/**
+ * Difference of a single subpath between two exports fields
+ */
+export type ExportChange =
+	| { kind: "added"; key: string; next: unknown }
+	| { kind: "removed"; key: string; previous: unknown }
+	| { kind: "changed"; key: string; previous: unknown; next: unknown };
+
+/**
+ * Normalizes an exports field read from package.json into a subpath map
+ *
+ * @param exports - The raw exports field (string, conditions object, subpath map or undefined)
+ * @returns The exports field indexed by subpath
+ * @example
+ * normalize_exports('./dist/index.js') // { '.': './dist/index.js' }
+ * normalize_exports({ import: './dist/index.js' }) // { '.': { import: './dist/index.js' } }
+ * normalize_exports(undefined) // {}
+ */
+export const normalize_exports = (
+	exports: unknown,
+): Record<string, unknown> => {
+	if (exports === undefined || exports === null) {
+		return {};
+	}
+
+	if (typeof exports !== "object" || Array.isArray(exports)) {
+		return { ".": exports };
+	}
+
+	const keys = Object.keys(exports);
+	const is_subpath_map =
+		keys.length > 0 && keys.every((key) => key.startsWith("."));
+
+	if (!is_subpath_map && keys.length > 0) {
+		return { ".": exports };
+	}
+
+	return exports as Record<string, unknown>;
+};
+
+/**
+ * Compares the current exports field with the generated one
+ *
+ * Entries are compared by their serialized JSON, so a different condition order counts as a change.
+ *
+ * @param current_exports - The exports field currently in package.json
+ * @param generated_exports - The generated export map
+ * @returns The list of added, removed and changed subpaths
+ * @example
+ * diff_exports({ './old': './dist/old.js' }, { './new': { import: './dist/new.js' } })
+ * // [{ kind: 'removed', key: './old', ... }, { kind: 'added', key: './new', ... }]
+ */
+export const diff_exports = (
+	current_exports: unknown,
+	generated_exports: ExportMap,
+): ExportChange[] => {
+	const current = normalize_exports(current_exports);
+	const changes: ExportChange[] = [];
+
+	for (const [key, previous] of Object.entries(current)) {
+		if (!(key in generated_exports)) {
+			changes.push({ kind: "removed", key, previous });
+		}
+	}
+
+	for (const [key, next] of Object.entries(generated_exports)) {
+		if (!(key in current)) {
+			changes.push({ kind: "added", key, next });
+			continue;
+		}
+
+		const previous = current[key];
+
+		if (JSON.stringify(previous) !== JSON.stringify(next)) {
+			changes.push({ kind: "changed", key, previous, next });
+		}
+	}
+
+	return changes;
+};
+
+/**
+ * Formats a list of changes as a readable report, one subpath per line followed by its targets
+ *
+ * Added and removed subpaths list their targets, changed subpaths list the conditions whose target
+ * was added, removed or changed, with the old and new values.
+ *
+ * @param changes - The changes returned by diff_exports
+ * @returns The colored report lines
+ * @example
+ * format_exports_diff([{ kind: 'changed', key: '.', previous: { import: './dist/old.js' }, next: { import: './dist/index.js' } }])
+ * // ['  ~ . (changed)', '      ~ import: ./dist/old.js → ./dist/index.js']
+ */
+export const format_exports_diff = (changes: ExportChange[]): string[] => {
+	return changes.flatMap((change) => {
+		switch (change.kind) {
+			case "added":
+				return [
+					chalk.green(`  + ${change.key} (added)`),
+					...format_targets(change.next).map((line) =>
+						chalk.green(`      ${line}`),
+					),
+				];
+			case "removed":
+				return [
+					chalk.red(`  - ${change.key} (removed)`),
+					...format_targets(change.previous).map((line) =>
+						chalk.red(`      ${line}`),
+					),
+				];
+			case "changed":
+				return [
+					chalk.yellow(`  ~ ${change.key} (changed)`),
+					...format_target_changes(change.previous, change.next),
+				];
+		}
+	});
+};
+
+/**
+ * Formats the targets of an entry, one per condition path
+ */
+const format_targets = (entry: unknown): string[] => {
+	return [...flatten_targets(entry)].map(([conditions, target]) =>
+		format_target(conditions, target),
+	);
+};
+
+/**
+ * Formats the targets that differ between two entries of the same subpath
+ */
+const format_target_changes = (previous: unknown, next: unknown): string[] => {
+	const previous_targets = flatten_targets(previous);
+	const next_targets = flatten_targets(next);
+	const lines: string[] = [];
+
+	for (const [conditions, target] of previous_targets) {
+		const next_target = next_targets.get(conditions);
+
+		if (next_target === undefined) {
+			lines.push(chalk.red(`      - ${format_target(conditions, target)}`));
+		} else if (next_target !== target) {
+			lines.push(
+				chalk.yellow(
+					`      ~ ${format_target(conditions, `${target} → ${next_target}`)}`,
+				),
+			);
+		}
+	}
+
+	for (const [conditions, target] of next_targets) {
+		if (!previous_targets.has(conditions)) {
+			lines.push(chalk.green(`      + ${format_target(conditions, target)}`));
+		}
+	}
+
+	// same targets in another order, which changes how conditions are matched
+	if (lines.length === 0) {
+		lines.push(chalk.yellow("      ~ condition order"));
+	}
+
+	return lines;
+};
+
+const format_target = (conditions: string, target: string): string => {
+	return conditions === "" ? target : `${conditions}: ${target}`;
+};
+
+/**
+ * Flattens an entry into its targets, indexed by condition path
+ *
+ * @example
+ * flatten_targets({ import: { types: './dist/index.d.ts', default: './dist/index.js' } })
+ * // Map { 'import.types' => './dist/index.d.ts', 'import.default' => './dist/index.js' }
+ */
+const flatten_targets = (
+	entry: unknown,
+	conditions = "",
+	targets = new Map<string, string>(),
+): Map<string, string> => {
+	if (Array.isArray(entry)) {
+		for (const [index, item] of entry.entries()) {
+			flatten_targets(item, `${conditions}[${index}]`, targets);
+		}
+	} else if (typeof entry === "object" && entry !== null) {
+		for (const [condition, value] of Object.entries(entry)) {
+			flatten_targets(
+				value,
+				conditions === "" ? condition : `${conditions}.${condition}`,
+				targets,
+			);
+		}
+	} else if (entry !== undefined) {
+		targets.set(conditions, String(entry));
+	}
+
+	return targets;
+};
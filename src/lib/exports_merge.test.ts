@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { merge_exports } from "./exports_merge";
+
+describe("merge_exports", () => {
+	it("should return the generated exports when nothing exists yet", () => {
+		const generated = { ".": { import: "./dist/index.js" } };
+
+		expect(merge_exports(undefined, generated, [])).toEqual(generated);
+	});
+
+	it("should update generated keys in place and append new ones", () => {
+		const current = {
+			"./utils": { import: "./dist/old-utils.js" },
+			".": { import: "./dist/index.js" },
+		};
+		const generated = {
+			".": { import: "./dist/index.js" },
+			"./utils": { import: "./dist/utils.js" },
+			"./helpers": { import: "./dist/helpers.js" },
+		};
+
+		const merged = merge_exports(current, generated, []);
+
+		expect(Object.keys(merged)).toEqual(["./utils", ".", "./helpers"]);
+		expect(merged["./utils"]).toEqual({ import: "./dist/utils.js" });
+	});
+
+	it("should remove stale keys that are not preserved", () => {
+		const current = {
+			".": { import: "./dist/index.js" },
+			"./removed": { import: "./dist/removed.js" },
+		};
+		const generated = { ".": { import: "./dist/index.js" } };
+
+		expect(merge_exports(current, generated, [])).toEqual(generated);
+	});
+
+	it("should keep preserved keys as is and in their original position", () => {
+		const current = {
+			".": { import: "./dist/index.js" },
+			"./package.json": "./package.json",
+			"./internal/*": null,
+			"./alias": { node: "./dist/node.js", default: "./dist/browser.js" },
+			"./utils": { import: "./dist/utils.js" },
+		};
+		const generated = {
+			".": { types: "./dist/index.d.ts", import: "./dist/index.js" },
+			"./alias": { import: "./dist/alias.js" },
+			"./utils": { import: "./dist/utils.js" },
+		};
+
+		const merged = merge_exports(current, generated, [
+			"./package.json",
+			"./internal/*",
+			"./alias",
+		]);
+
+		expect(Object.keys(merged)).toEqual([
+			".",
+			"./package.json",
+			"./internal/*",
+			"./alias",
+			"./utils",
+		]);
+		expect(merged).toEqual({
+			".": { types: "./dist/index.d.ts", import: "./dist/index.js" },
+			"./package.json": "./package.json",
+			"./internal/*": null,
+			"./alias": { node: "./dist/node.js", default: "./dist/browser.js" },
+			"./utils": { import: "./dist/utils.js" },
+		});
+	});
+
+	it("should add a preserved key from the generated exports when missing", () => {
+		const generated = { "./alias": { import: "./dist/alias.js" } };
+
+		expect(merge_exports({}, generated, ["./alias"])).toEqual(generated);
+	});
+});
@@ -0,0 +1,48 @@
+import type { ExportMap } from "../types.js";
+import { normalize_exports } from "./exports_diff.js";
+
+/**
+ * Merges the generated exports into the exports field currently in package.json
+ *
+ * - preserved keys are kept exactly as they are and in their original position
+ * - generated keys already present are updated in place
+ * - other existing keys are stale and removed
+ * - new generated keys are appended
+ *
+ * @param current_exports - The exports field currently in package.json
+ * @param generated_exports - The generated export map
+ * @param preserved_keys - The hand-written subpaths that must be kept as is
+ * @returns The merged export map
+ * @example
+ * merge_exports(
+ *   { './package.json': './package.json', './old': './dist/old.js' },
+ *   { '.': { import: './dist/index.js' } },
+ *   ['./package.json'],
+ * )
+ * // { './package.json': './package.json', '.': { import: './dist/index.js' } }
+ */
+export const merge_exports = (
+	current_exports: unknown,
+	generated_exports: ExportMap,
+	preserved_keys: string[],
+): ExportMap => {
+	const current = normalize_exports(current_exports);
+	const preserved = new Set(preserved_keys);
+	const merged: ExportMap = {};
+
+	for (const [key, value] of Object.entries(current)) {
+		if (preserved.has(key)) {
+			merged[key] = value as ExportMap[string];
+		} else if (key in generated_exports) {
+			merged[key] = generated_exports[key];
+		}
+	}
+
+	for (const [key, value] of Object.entries(generated_exports)) {
+		if (!(key in merged)) {
+			merged[key] = value;
+		}
+	}
+
+	return merged;
+};
@@ -0,0 +1,115 @@
+import fs from "node:fs";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { create_file, create_temp_directory } from "../test_utils";
+import { collapse_export_patterns } from "./exports_patterns";
+
+const component_entry = (name: string) => ({
+	types: `./dist/components/${name}.d.ts`,
+	import: `./dist/components/${name}.js`,
+});
+
+describe("collapse_export_patterns", () => {
+	let temp_dir: string;
+
+	beforeEach(() => {
+		temp_dir = create_temp_directory();
+
+		for (const name of ["button", "card", "dialog"]) {
+			create_file(temp_dir, `dist/components/${name}.js`);
+			create_file(temp_dir, `dist/components/${name}.d.ts`);
+		}
+	});
+
+	afterEach(() => {
+		fs.rmSync(temp_dir, { recursive: true, force: true });
+	});
+
+	it("should collapse a uniform directory into a pattern", () => {
+		const exports = {
+			".": { types: "./dist/index.d.ts", import: "./dist/index.js" },
+			"./components/button": component_entry("button"),
+			"./components/card": component_entry("card"),
+			"./components/dialog": component_entry("dialog"),
+		};
+
+		expect(collapse_export_patterns(exports, temp_dir)).toEqual({
+			".": { types: "./dist/index.d.ts", import: "./dist/index.js" },
+			"./components/*": {
+				types: "./dist/components/*.d.ts",
+				import: "./dist/components/*.js",
+			},
+		});
+	});
+
+	it("should keep explicit keys for the exceptions", () => {
+		create_file(temp_dir, "dist/components/button.css");
+
+		const exports = {
+			"./components/button": component_entry("button"),
+			"./components/button.css": { import: "./dist/components/button.css" },
+			"./components/card": component_entry("card"),
+			"./components/dialog": component_entry("dialog"),
+		};
+
+		expect(collapse_export_patterns(exports, temp_dir)).toEqual({
+			"./components/*": {
+				types: "./dist/components/*.d.ts",
+				import: "./dist/components/*.js",
+			},
+			"./components/button.css": { import: "./dist/components/button.css" },
+		});
+	});
+
+	it("should not collapse when a file of the directory has another shape", () => {
+		create_file(temp_dir, "dist/components/icon.js");
+
+		const exports = {
+			"./components/button": component_entry("button"),
+			"./components/card": component_entry("card"),
+			"./components/dialog": component_entry("dialog"),
+			"./components/icon": { import: "./dist/components/icon.js" },
+		};
+
+		// the .js pattern would also expose icon, which has no declaration
+		expect(collapse_export_patterns(exports, temp_dir)).toEqual(exports);
+	});
+
+	it("should not collapse when the pattern would expose more files", () => {
+		create_file(temp_dir, "dist/components/internal/helper.js");
+		create_file(temp_dir, "dist/components/internal/helper.d.ts");
+
+		const exports = {
+			"./components/button": component_entry("button"),
+			"./components/card": component_entry("card"),
+			"./components/dialog": component_entry("dialog"),
+		};
+
+		expect(collapse_export_patterns(exports, temp_dir)).toEqual(exports);
+	});
+
+	it("should collapse CSS files keeping their extension in the key", () => {
+		create_file(temp_dir, "dist/theme/dark.css");
+		create_file(temp_dir, "dist/theme/light.css");
+
+		const exports = {
+			"./theme/dark.css": { import: "./dist/theme/dark.css" },
+			"./theme/light.css": { import: "./dist/theme/light.css" },
+		};
+
+		expect(collapse_export_patterns(exports, temp_dir)).toEqual({
+			"./theme/*.css": { import: "./dist/theme/*.css" },
+		});
+	});
+
+	it("should keep nested index files as exceptions", () => {
+		const exports = {
+			"./components": {
+				types: "./dist/components/index.d.ts",
+				import: "./dist/components/index.js",
+			},
+			"./components/button": component_entry("button"),
+		};
+
+		expect(collapse_export_patterns(exports, temp_dir)).toEqual(exports);
+	});
+});
@@ -0,0 +1,167 @@
+import path from "node:path";
+import glob from "fast-glob";
+import type { ExportMap } from "../types.js";
+import { collect_targets, map_targets } from "./export_targets.js";
+
+/**
+ * Subpaths of a directory that share the same entry shape
+ */
+type PatternGroup = {
+	/** The pattern subpath (e.g. "./components/*") */
+	pattern_key: string;
+	/** The entry with "*" in place of the file name in each target */
+	pattern_entry: ExportMap[string];
+	/** The subpaths replaced by the pattern, indexed by their "*" substitution */
+	keys: Map<string, string>;
+};
+
+/**
+ * Collapses directories whose subpaths all follow the same shape into subpath patterns
+ *
+ * A group of at least two subpaths of the same directory is replaced by a pattern only if the
+ * pattern resolves to exactly the same files as the explicit subpaths: every file matched by
+ * each pattern target must correspond to one of the subpaths. Other subpaths are kept as exceptions.
+ *
+ * @param exports - The generated export map
+ * @param project_path - The absolute path of the project, targets are relative to it
+ * @returns The export map with patterns
+ * @example
+ * collapse_export_patterns({
+ *   './components/button': { types: './dist/components/button.d.ts', import: './dist/components/button.js' },
+ *   './components/card': { types: './dist/components/card.d.ts', import: './dist/components/card.js' },
+ * }, '/path/to/project')
+ * // { './components/*': { types: './dist/components/*.d.ts', import: './dist/components/*.js' } }
+ */
+export const collapse_export_patterns = (
+	exports: ExportMap,
+	project_path: string,
+): ExportMap => {
+	const groups = new Map<string, PatternGroup>();
+
+	for (const [key, entry] of Object.entries(exports)) {
+		const candidate = to_pattern_candidate(key, entry);
+
+		if (candidate === undefined) {
+			continue;
+		}
+
+		const group_id = `${candidate.pattern_key}\0${JSON.stringify(candidate.pattern_entry)}`;
+		const group = groups.get(group_id) ?? {
+			pattern_key: candidate.pattern_key,
+			pattern_entry: candidate.pattern_entry,
+			keys: new Map(),
+		};
+
+		group.keys.set(candidate.substitution, key);
+		groups.set(group_id, group);
+	}
+
+	const replaced = new Map<string, PatternGroup>();
+
+	for (const group of groups.values()) {
+		if (group.keys.size < 2 || group.pattern_key in exports) {
+			continue;
+		}
+
+		if (resolves_to_same_files(group, project_path)) {
+			for (const key of group.keys.values()) {
+				replaced.set(key, group);
+			}
+		}
+	}
+
+	const collapsed: ExportMap = {};
+
+	for (const [key, entry] of Object.entries(exports)) {
+		const group = replaced.get(key);
+
+		if (group === undefined) {
+			collapsed[key] = entry;
+		} else if (!(group.pattern_key in collapsed)) {
+			collapsed[group.pattern_key] = group.pattern_entry;
+		}
+	}
+
+	return collapsed;
+};
+
+/**
+ * Derives the pattern of a subpath whose targets all end with its file name
+ *
+ * @example
+ * to_pattern_candidate('./theme/dark.css', { import: './dist/theme/dark.css' })
+ * // { pattern_key: './theme/*.css', pattern_entry: { import: './dist/theme/*.css' }, substitution: 'dark' }
+ */
+const to_pattern_candidate = (
+	key: string,
+	entry: ExportMap[string],
+):
+	| {
+			pattern_key: string;
+			pattern_entry: ExportMap[string];
+			substitution: string;
+	  }
+	| undefined => {
+	if (key === "." || key.includes("*") || entry === null) {
+		return undefined;
+	}
+
+	const directory = path.posix.dirname(key);
+	const file_name = path.posix.basename(key);
+	const extension = path.posix.extname(file_name);
+	const substitution = path.posix.basename(file_name, extension);
+
+	if (directory === "." || substitution === "") {
+		return undefined;
+	}
+
+	const pattern_entry = map_targets(entry, (target) => {
+		const target_file_name = path.posix.basename(target);
+
+		if (!target_file_name.startsWith(`${substitution}.`)) {
+			return undefined;
+		}
+
+		return `${path.posix.dirname(target)}/*${target_file_name.slice(substitution.length)}`;
+	});
+
+	if (pattern_entry === undefined) {
+		return undefined;
+	}
+
+	return {
+		pattern_key: `${directory}/*${extension}`,
+		pattern_entry,
+		substitution,
+	};
+};
+
+/**
+ * Checks that every target of the pattern matches exactly the files of the grouped subpaths
+ *
+ * As in Node.js resolution, "*" can match any string, including "/".
+ */
+const resolves_to_same_files = (
+	group: PatternGroup,
+	project_path: string,
+): boolean => {
+	for (const pattern_target of collect_targets(group.pattern_entry)) {
+		const [prefix, suffix] = pattern_target.split("*");
+		const directory = path.join(project_path, prefix);
+
+		const substitutions = glob
+			.sync("**/*", { cwd: directory, dot: true })
+			.filter((file_path) => file_path.endsWith(suffix))
+			.map((file_path) => file_path.slice(0, file_path.length - suffix.length))
+			.filter((substitution) => substitution !== "");
+
+		if (
+			substitutions.length !== group.keys.size ||
+			substitutions.some((substitution) => !group.keys.has(substitution))
+		) {
+			return false;
+		}
+	}
+
+	return true;
+};
@@ -0,0 +1,117 @@
+import fs from "node:fs";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { create_file, create_temp_directory } from "../test_utils";
+import { validate_exports } from "./exports_validation";
+
+describe("validate_exports", () => {
+	let temp_dir: string;
+
+	beforeEach(() => {
+		temp_dir = create_temp_directory();
+		create_file(temp_dir, "dist/index.js");
+		create_file(temp_dir, "dist/index.d.ts");
+		create_file(temp_dir, "dist/components/button.js");
+	});
+
+	afterEach(() => {
+		fs.rmSync(temp_dir, { recursive: true, force: true });
+	});
+
+	it("should accept a valid export map", () => {
+		const diagnostics = validate_exports(
+			{
+				".": {
+					import: { types: "./dist/index.d.ts", default: "./dist/index.js" },
+				},
+				"./components/*": "./dist/components/*.js",
+				"./internal/*": null,
+				"./package.json": "./package.json",
+			},
+			temp_dir,
+		);
+
+		// package.json is the only missing file of the temporary project
+		expect(diagnostics.map(({ code, subpath }) => ({ code, subpath }))).toEqual(
+			[{ code: "missing-target", subpath: "./package.json" }],
+		);
+	});
+
+	it("should report missing targets and patterns matching no file", () => {
+		const diagnostics = validate_exports(
+			{
+				"./utils": { types: "./dist/utils.d.ts", import: "./dist/utils.js" },
+				"./icons/*": "./dist/icons/*.js",
+			},
+			temp_dir,
+		);
+
+		expect(diagnostics).toEqual([
+			{
+				severity: "error",
+				code: "missing-target",
+				subpath: "./utils",
+				message:
+					'Target "./dist/utils.d.ts" of "./utils" (types) does not exist.',
+			},
+			{
+				severity: "error",
+				code: "missing-target",
+				subpath: "./utils",
+				message:
+					'Target "./dist/utils.js" of "./utils" (import) does not exist.',
+			},
+			{
+				severity: "error",
+				code: "missing-target",
+				subpath: "./icons/*",
+				message: 'Target "./dist/icons/*.js" of "./icons/*" matches no file.',
+			},
+		]);
+	});
+
+	it("should report types conditions after runtime conditions", () => {
+		const diagnostics = validate_exports(
+			{
+				".": { import: "./dist/index.js", types: "./dist/index.d.ts" },
+				"./nested": {
+					require: { default: "./dist/index.js", types: "./dist/index.d.ts" },
+				},
+				"./undefined": { types: undefined, import: "./dist/index.js" },
+			},
+			temp_dir,
+		);
+
+		expect(diagnostics.map(({ code, subpath }) => ({ code, subpath }))).toEqual(
+			[
+				{ code: "types-not-first", subpath: "." },
+				{ code: "types-not-first", subpath: "./nested" },
+			],
+		);
+	});
+
+	it("should report targets escaping the package root and invalid subpaths", () => {
+		const diagnostics = validate_exports(
+			{
+				"./outside": "./../shared/index.js",
+				"./modules": "./node_modules/lib/index.js",
+				"./relative": "dist/index.js",
+				utils: "./dist/index.js",
+				"./folder/": "./dist/",
+				"./*/*": "./dist/*/*.js",
+			},
+			temp_dir,
+		);
+
+		expect(diagnostics.map(({ code, subpath }) => ({ code, subpath }))).toEqual(
+			[
+				{ code: "invalid-target", subpath: "./outside" },
+				{ code: "invalid-target", subpath: "./modules" },
+				{ code: "invalid-target", subpath: "./relative" },
+				{ code: "invalid-subpath", subpath: "utils" },
+				{ code: "invalid-subpath", subpath: "./folder/" },
+				{ code: "invalid-target", subpath: "./folder/" },
+				{ code: "invalid-subpath", subpath: "./*/*" },
+			],
+		);
+	});
+});
@@ -0,0 +1,200 @@
+import fs from "node:fs";
+import path from "node:path";
+import glob from "fast-glob";
+import type { Diagnostic, ExportMap } from "../types.js";
+
+/**
+ * Problems found in an export map
+ *
+ * - missing-target: the target file does not exist (or no file matches a pattern target)
+ * - invalid-target: the target does not start with "./", or escapes the package root
+ * - invalid-subpath: the subpath is not "." or does not start with "./", or is not a valid pattern
+ * - types-not-first: the "types" condition comes after "import", "require" or "default"
+ */
+export type ExportDiagnosticCode =
+	| "missing-target"
+	| "invalid-target"
+	| "invalid-subpath"
+	| "types-not-first";
+
+/**
+ * Problem found in an export map, with the subpath it was found in
+ */
+export type ExportDiagnostic = Diagnostic & {
+	code: ExportDiagnosticCode;
+	subpath: string;
+};
+
+/**
+ * Conditions that "types" must precede, as Node.js and TypeScript use the first matching condition
+ */
+const RUNTIME_CONDITIONS = ["import", "require", "default"];
+
+/**
+ * Segments that Node.js refuses in export targets
+ */
+const INVALID_TARGET_SEGMENTS = ["", ".", "..", "node_modules"];
+
+/**
+ * Validates an export map against the resolution rules of Node.js
+ *
+ * @param exports - The export map
+ * @param project_path - The absolute path of the package, targets are relative to it
+ * @returns The problems found, empty if the export map is valid
+ * @example
+ * validate_exports({ './utils': { import: './dist/utils.js', types: './dist/utils.d.ts' } }, '/path/to/project')
+ * // [{ severity: 'error', code: 'types-not-first', subpath: './utils', message: 'The "types" condition of "./utils" must come before "import", "require" and "default".' }]
+ */
+export const validate_exports = (
+	exports: ExportMap,
+	project_path: string,
+): ExportDiagnostic[] => {
+	const diagnostics: ExportDiagnostic[] = [];
+	const report = (
+		code: ExportDiagnosticCode,
+		subpath: string,
+		message: string,
+	) => {
+		diagnostics.push({ severity: "error", code, subpath, message });
+	};
+
+	const visit = (subpath: string, value: unknown, conditions: string[]) => {
+		const location =
+			conditions.length === 0
+				? `"${subpath}"`
+				: `"${subpath}" (${conditions.join(".")})`;
+
+		if (typeof value === "string") {
+			const error = check_target(value, project_path);
+
+			if (error !== undefined) {
+				report(
+					error.code,
+					subpath,
+					`Target "${value}" of ${location} ${error.message}.`,
+				);
+			}
+		} else if (Array.isArray(value)) {
+			for (const item of value) {
+				visit(subpath, item, conditions);
+			}
+		} else if (typeof value === "object" && value !== null) {
+			const keys = Object.keys(value).filter(
+				(key) => (value as Record<string, unknown>)[key] !== undefined,
+			);
+			const types_index = keys.indexOf("types");
+			const runtime_index = keys.findIndex((key) =>
+				RUNTIME_CONDITIONS.includes(key),
+			);
+
+			if (runtime_index !== -1 && types_index > runtime_index) {
+				report(
+					"types-not-first",
+					subpath,
+					`The "types" condition of ${location} must come before "import", "require" and "default".`,
+				);
+			}
+
+			for (const key of keys) {
+				visit(subpath, (value as Record<string, unknown>)[key], [
+					...conditions,
+					key,
+				]);
+			}
+		}
+	};
+
+	for (const [subpath, entry] of Object.entries(exports)) {
+		const error = check_subpath(subpath);
+
+		if (error !== undefined) {
+			report("invalid-subpath", subpath, `Subpath "${subpath}" ${error}.`);
+		}
+
+		visit(subpath, entry, []);
+	}
+
+	return diagnostics;
+};
+
+/**
+ * Checks a subpath key, returning the reason it is invalid
+ */
+const check_subpath = (subpath: string): string | undefined => {
+	if (subpath !== "." && !subpath.startsWith("./")) {
+		return 'must be "." or start with "./"';
+	}
+
+	if (subpath.endsWith("/")) {
+		return 'must not end with "/", use a "*" pattern instead';
+	}
+
+	if (subpath.split("*").length > 2) {
+		return 'must not contain more than one "*"';
+	}
+
+	return undefined;
+};
+
+/**
+ * Checks a target path, returning the reason it is invalid
+ */
+const check_target = (
+	target: string,
+	project_path: string,
+): { code: ExportDiagnosticCode; message: string } | undefined => {
+	if (!target.startsWith("./")) {
+		return { code: "invalid-target", message: 'must start with "./"' };
+	}
+
+	const has_invalid_segment = target
+		.slice(2)
+		.split(/[/\\]/)
+		.some((segment) => INVALID_TARGET_SEGMENTS.includes(segment.toLowerCase()));
+
+	if (has_invalid_segment) {
+		return {
+			code: "invalid-target",
+			message:
+				'escapes the package root or contains an empty, ".", ".." or "node_modules" segment',
+		};
+	}
+
+	if (!target_exists(target, project_path)) {
+		return {
+			code: "missing-target",
+			message: target.includes("*") ? "matches no file" : "does not exist",
+		};
+	}
+
+	return undefined;
+};
+
+/**
+ * Checks that a target exists, or that a pattern target matches at least one file
+ */
+const target_exists = (target: string, project_path: string): boolean => {
+	if (!target.includes("*")) {
+		return fs.existsSync(path.join(project_path, target));
+	}
+
+	const [prefix, ...suffixes] = target.split("*");
+	const directory = prefix.endsWith("/") ? prefix : path.posix.dirname(prefix);
+	const absolute_directory = path.join(project_path, directory);
+
+	if (!fs.existsSync(absolute_directory)) {
+		return false;
+	}
+
+	const escape_regexp = (value: string) =>
+		value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+	const matcher = new RegExp(
+		`^${escape_regexp(prefix)}.+${suffixes.map(escape_regexp).join(".+")}$`,
+	);
+
+	return glob
+		.sync("**/*", { cwd: absolute_directory, dot: true })
+		.some((file_path) =>
+			matcher.test(`${directory.replace(/\/$/, "")}/${file_path}`),
+		);
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { parse_file_visibility } from "./file_visibility";
+
+describe("parse_file_visibility", () => {
+	it("should read the tag of a @packageDocumentation comment", () => {
+		const content = `/**
+ * Public helpers
+ *
+ * @packageDocumentation
+ * @public
+ */
+export const helper = () => {};
+`;
+
+		expect(parse_file_visibility(content)).toBe("public");
+	});
+
+	it("should read the tag of a comment separated from the first statement", () => {
+		const content = `#!/usr/bin/env node
+// license header
+
+/** @internal */
+
+import fs from "node:fs";
+`;
+
+		expect(parse_file_visibility(content)).toBe("internal");
+	});
+
+	it("should ignore comments documenting the first statement", () => {
+		const content = `/** @internal */
+export const helper = () => {};
+`;
+
+		expect(parse_file_visibility(content)).toBeUndefined();
+	});
+
+	it("should ignore tags after the first statement", () => {
+		const content = `export const a = 1;
+
+/** @internal */
+
+export const b = 2;
+`;
+
+		expect(parse_file_visibility(content)).toBeUndefined();
+	});
+
+	it("should give precedence to @internal", () => {
+		const content = `/**
+ * @packageDocumentation
+ * @public
+ */
+/**
+ * @module
+ * @internal
+ */
+`;
+
+		expect(parse_file_visibility(content)).toBe("internal");
+	});
+});
@@ -0,0 +1,95 @@
+import fs from "node:fs";
+
+/**
+ * Visibility declared by the file-level JSDoc of a module
+ */
+export type FileVisibility = "public" | "internal";
+
+/**
+ * Tags marking a JSDoc comment as documenting the whole file
+ */
+const FILE_LEVEL_TAGS = /@(packageDocumentation|module|file|fileoverview)\b/;
+
+/**
+ * Reads the visibility declared by the file-level JSDoc of a module
+ *
+ * @param file_path - The absolute path of a source or declaration file
+ * @returns The declared visibility, or undefined if the file does not exist or declares none
+ * @example
+ * read_file_visibility('/path/to/project/src/utils/helper.ts') // 'internal'
+ */
+export const read_file_visibility = (
+	file_path: string,
+): FileVisibility | undefined => {
+	if (!fs.existsSync(file_path)) {
+		return undefined;
+	}
+
+	return parse_file_visibility(fs.readFileSync(file_path, "utf8"));
+};
+
+/**
+ * Extracts the `@internal` or `@public` tag of the file-level JSDoc of a module
+ *
+ * Only the comments preceding the first statement are read. A JSDoc comment documents the file
+ * when it has a `@packageDocumentation`, `@module`, `@file` or `@fileoverview` tag, or when it is
+ * separated from the next statement by a blank line; otherwise it documents that statement.
+ * `@internal` takes precedence over `@public`.
+ *
+ * @param content - The content of the module
+ * @returns The declared visibility, or undefined if the file declares none
+ * @example
+ * parse_file_visibility('/**\n * @packageDocumentation\n * @public\n *\/\nexport const a = 1;') // 'public'
+ * parse_file_visibility('/** @internal *\/\n\nexport const a = 1;') // 'internal'
+ * parse_file_visibility('/** @internal *\/\nexport const a = 1;') // undefined
+ */
+export const parse_file_visibility = (
+	content: string,
+): FileVisibility | undefined => {
+	let position = content.startsWith("#!") ? content.indexOf("\n") : 0;
+	let visibility: FileVisibility | undefined;
+
+	while (position !== -1 && position < content.length) {
+		const whitespace = content.slice(position).match(/^\s+/);
+
+		if (whitespace) {
+			position += whitespace[0].length;
+		} else if (content.startsWith("//", position)) {
+			position = content.indexOf("\n", position);
+		} else if (content.startsWith("/*", position)) {
+			const end = content.indexOf("*/", position + 2);
+
+			if (end === -1) {
+				break;
+			}
+
+			const comment = content.slice(position, end + 2);
+			position = end + 2;
+
+			// the characters starting on the same or the next line, empty after a blank line
+			const next_chars =
+				content
+					.slice(position)
+					.match(/^[ \t]*(?:\r?\n)?[ \t]*(\S{0,2})/)?.[1] ?? "";
+			const is_attached =
+				next_chars !== "" && next_chars !== "//" && next_chars !== "/*";
+
+			const is_jsdoc = comment.startsWith("/**") && comment !== "/**/";
+			const is_file_level = FILE_LEVEL_TAGS.test(comment) || !is_attached;
+
+			if (is_jsdoc && is_file_level) {
+				if (/(^|\s)@internal\b/.test(comment)) {
+					return "internal";
+				}
+
+				if (/(^|\s)@public\b/.test(comment)) {
+					visibility = "public";
+				}
+			}
+		} else {
+			break;
+		}
+	}
+
+	return visibility;
+};
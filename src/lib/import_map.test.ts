@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { generate_import_map } from "./import_map";
+
+describe("generate_import_map", () => {
+	it("should map each subpath to the target of the condition with the highest priority", () => {
+		expect(
+			generate_import_map(
+				{
+					".": {
+						types: "./dist/index.d.ts",
+						import: "./dist/index.js",
+						browser: "./dist/index.browser.js",
+					},
+					"./utils": {
+						node: { import: "./dist/utils.node.js" },
+						default: { types: "./dist/utils.d.ts", import: "./dist/utils.js" },
+					},
+					"./theme.css": "./dist/theme.css",
+				},
+				"pkg",
+				"/node_modules/pkg/",
+				["browser", "import", "default"],
+			),
+		).toEqual({
+			import_map: {
+				imports: {
+					pkg: "/node_modules/pkg/dist/index.browser.js",
+					"pkg/utils": "/node_modules/pkg/dist/utils.js",
+					"pkg/theme.css": "/node_modules/pkg/dist/theme.css",
+				},
+			},
+			skipped_patterns: [],
+		});
+	});
+
+	it("should leave out type-only and excluded subpaths", () => {
+		expect(
+			generate_import_map(
+				{
+					"./types": { types: "./dist/types.d.ts" },
+					"./internal/*": null,
+				},
+				"pkg",
+				"./",
+				["browser", "import", "default"],
+			).import_map,
+		).toEqual({ imports: {} });
+	});
+
+	it("should map patterns as prefixes when only the prefix differs", () => {
+		expect(
+			generate_import_map(
+				{
+					"./icons/*": { import: "./dist/icons/*" },
+					"./styles/*.css": "./dist/styles/*.css",
+					"./components/*": { import: "./dist/components/*.js" },
+				},
+				"pkg",
+				"https://cdn.example.com/pkg@1.0.0",
+				["import"],
+			),
+		).toEqual({
+			import_map: {
+				imports: {
+					"pkg/icons/": "https://cdn.example.com/pkg@1.0.0/dist/icons/",
+					"pkg/styles/": "https://cdn.example.com/pkg@1.0.0/dist/styles/",
+				},
+			},
+			skipped_patterns: ["./components/*"],
+		});
+	});
+});
@@ -0,0 +1,119 @@
+import type { ExportMap } from "../types.js";
+
+/**
+ * Browser import map, as in `<script type="importmap">`
+ */
+export type ImportMap = {
+	imports: Record<string, string>;
+};
+
+/**
+ * Converts an export map into a browser import map
+ *
+ * Each subpath maps its package specifier to the target of the condition with the highest priority,
+ * prefixed with the URL the package is served from. Conditions missing from the priority list are
+ * ignored, so type-only entries and excluded subpaths are left out. Import maps only remap specifier
+ * prefixes ending with "/", so a pattern subpath is skipped unless "*" ends its key and its target,
+ * up to the same suffix.
+ *
+ * @param exports - The export map
+ * @param package_name - The name of the package
+ * @param prefix - The URL prefix of the targets (e.g. "/node_modules/pkg/")
+ * @param conditions - The conditions, from the highest to the lowest priority
+ * @returns The import map, and the pattern subpaths that cannot be mapped
+ * @example
+ * generate_import_map({
+ *   '.': { types: './dist/index.d.ts', browser: './dist/index.browser.js', import: './dist/index.js' },
+ *   './components/*': { import: './dist/components/*' },
+ * }, 'pkg', '/assets/pkg/', ['browser', 'import', 'default'])
+ * // {
+ * //   import_map: { imports: { pkg: '/assets/pkg/dist/index.browser.js', 'pkg/components/': '/assets/pkg/dist/components/' } },
+ * //   skipped_patterns: [],
+ * // }
+ */
+export const generate_import_map = (
+	exports: ExportMap,
+	package_name: string,
+	prefix: string,
+	conditions: string[],
+): { import_map: ImportMap; skipped_patterns: string[] } => {
+	const imports: Record<string, string> = {};
+	const skipped_patterns: string[] = [];
+	const to_url = (target: string) =>
+		`${prefix.endsWith("/") ? prefix : `${prefix}/`}${target.replace(/^\.\//, "")}`;
+
+	for (const [subpath, entry] of Object.entries(exports)) {
+		const target = select_by_priority(entry, conditions);
+
+		if (target === undefined) {
+			continue;
+		}
+
+		const specifier =
+			subpath === "." ? package_name : `${package_name}/${subpath.slice(2)}`;
+
+		if (!subpath.includes("*")) {
+			imports[specifier] = to_url(target);
+			continue;
+		}
+
+		const [specifier_prefix, specifier_suffix] = specifier.split("*");
+		const [target_prefix, target_suffix] = target.split("*");
+
+		if (
+			specifier_suffix !== target_suffix ||
+			!specifier_prefix.endsWith("/") ||
+			!target_prefix.endsWith("/")
+		) {
+			skipped_patterns.push(subpath);
+			continue;
+		}
+
+		imports[specifier_prefix] = to_url(target_prefix);
+	}
+
+	return { import_map: { imports }, skipped_patterns };
+};
+
+/**
+ * Selects the target of the condition with the highest priority, at each level of the entry
+ */
+const select_by_priority = (
+	entry: unknown,
+	conditions: string[],
+): string | undefined => {
+	if (typeof entry === "string") {
+		return entry;
+	}
+
+	if (Array.isArray(entry)) {
+		for (const item of entry) {
+			const target = select_by_priority(item, conditions);
+
+			if (target !== undefined) {
+				return target;
+			}
+		}
+
+		return undefined;
+	}
+
+	if (typeof entry === "object" && entry !== null) {
+		for (const condition of conditions) {
+			if (!(condition in entry)) {
+				continue;
+			}
+
+			const target = select_by_priority(
+				(entry as Record<string, unknown>)[condition],
+				conditions,
+			);
+
+			if (target !== undefined) {
+				return target;
+			}
+		}
+	}
+
+	return undefined;
+};
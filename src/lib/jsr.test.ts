@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { diff_jsr_subpaths, generate_jsr_exports } from "./jsr";
+
+describe("generate_jsr_exports", () => {
+	it("should point each subpath at its source file", () => {
+		expect(
+			generate_jsr_exports(
+				[
+					{
+						export_path: ".",
+						entry: { import: "./dist/index.js" },
+						file_path: "src/index.ts",
+					},
+					{
+						export_path: "./client",
+						entry: {
+							browser: { import: "./dist/client.browser.js" },
+							default: { import: "./dist/client.js" },
+						},
+						file_path: "src/client.ts",
+					},
+				],
+				{},
+			),
+		).toEqual({ ".": "./src/index.ts", "./client": "./src/client.ts" });
+	});
+
+	it("should keep the configured winner of a collision", () => {
+		expect(
+			generate_jsr_exports(
+				[
+					{
+						export_path: "./foo",
+						entry: { import: "./dist/foo.js" },
+						file_path: "src/foo.ts",
+					},
+					{
+						export_path: "./foo",
+						entry: { import: "./dist/foo/index.js" },
+						file_path: "src/foo/index.ts",
+					},
+				],
+				{ "./foo": "src/foo.ts" },
+			),
+		).toEqual({ "./foo": "./src/foo.ts" });
+	});
+});
+
+describe("diff_jsr_subpaths", () => {
+	it("should ignore the subpaths of non-JavaScript files", () => {
+		expect(
+			diff_jsr_subpaths(
+				{
+					".": { types: "./dist/index.d.ts", import: "./dist/index.js" },
+					"./theme.css": { import: "./dist/theme.css" },
+				},
+				{ ".": "./src/index.ts" },
+			),
+		).toEqual({ npm_only: [], jsr_only: [] });
+	});
+
+	it("should list the subpaths exported to a single registry", () => {
+		expect(
+			diff_jsr_subpaths(
+				{
+					".": { import: "./dist/index.js" },
+					"./utils": { import: "./dist/utils.js" },
+				},
+				{ ".": "./src/index.ts", "./extra": "./src/extra.ts" },
+			),
+		).toEqual({ npm_only: ["./utils"], jsr_only: ["./extra"] });
+	});
+
+	it("should match JSR subpaths against npm patterns", () => {
+		expect(
+			diff_jsr_subpaths(
+				{
+					"./components/*": { import: "./dist/components/*.js" },
+					"./icons/*": { import: "./dist/icons/*.js" },
+				},
+				{ "./components/button": "./src/components/button.ts" },
+			),
+		).toEqual({ npm_only: ["./icons/*"], jsr_only: [] });
+	});
+});
@@ -0,0 +1,138 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { ExportMap, ValidationResult } from "../types.js";
+import { collect_targets } from "./export_targets.js";
+import {
+	type ExportCandidate,
+	resolve_export_collisions,
+} from "./exports_collisions.js";
+import { parse_jsonc } from "./tsconfig.js";
+
+/**
+ * Exports field of jsr.json, deno.json or deno.jsonc, each subpath pointing at a TypeScript source file
+ */
+export type JsrExports = Record<string, string>;
+
+/**
+ * Configuration files JSR reads the exports from, looked up in the project directory, in order
+ */
+export const JSR_CONFIG_FILE_NAMES = ["jsr.json", "deno.json", "deno.jsonc"];
+
+/**
+ * Finds the JSR configuration file of a project
+ *
+ * @param project_path - The absolute path of the project
+ * @returns The absolute path of jsr.json, deno.json or deno.jsonc, or undefined if there is none
+ */
+export const find_jsr_config = (project_path: string): string | undefined => {
+	return JSR_CONFIG_FILE_NAMES.map((name) =>
+		path.join(project_path, name),
+	).find((file_path) => fs.existsSync(file_path));
+};
+
+/**
+ * Reads the exports field of a JSR configuration file, which may contain comments and trailing commas
+ *
+ * @param config_path - The absolute path of jsr.json, deno.json or deno.jsonc
+ * @returns The exports field, undefined if there is none, or an error if the file cannot be parsed
+ * @example
+ * read_jsr_exports('/path/to/project/deno.json')
+ * // { validated: true, data: { '.': './src/index.ts' } }
+ */
+export const read_jsr_exports = (
+	config_path: string,
+): ValidationResult<unknown> => {
+	try {
+		return {
+			validated: true,
+			data: parse_jsonc(fs.readFileSync(config_path, "utf8")).exports,
+		};
+	} catch (error) {
+		return {
+			validated: false,
+			error: `Unable to read ${path.basename(config_path)}: ${(error as Error).message}`,
+		};
+	}
+};
+
+/**
+ * Generates the JSR exports from the export candidates of the source files
+ *
+ * JSR publishes the TypeScript sources, so each subpath points at the source file it was generated
+ * from. Platform variants grouped under custom conditions point at their base file, as JSR has no
+ * conditions. The winners of collisions are the same as for npm.
+ *
+ * @param candidates - The export candidates of the source files, without the assets
+ * @param winners - The file kept for each colliding subpath, relative to the project
+ * @returns The JSR exports
+ * @example
+ * generate_jsr_exports([
+ *   { export_path: '.', entry: { import: './dist/index.js' }, file_path: 'src/index.ts' },
+ *   { export_path: './utils', entry: { import: './dist/utils.js' }, file_path: 'src/utils.ts' },
+ * ], {})
+ * // { '.': './src/index.ts', './utils': './src/utils.ts' }
+ */
+export const generate_jsr_exports = (
+	candidates: ExportCandidate[],
+	winners: Record<string, string>,
+): JsrExports => {
+	const { exports } = resolve_export_collisions(
+		candidates.map((candidate) => ({
+			...candidate,
+			entry: `./${candidate.file_path}`,
+		})),
+		winners,
+	);
+
+	return exports as JsrExports;
+};
+
+/**
+ * Compares the module subpaths exported to npm with the subpaths exported to JSR
+ *
+ * Subpaths that only target non-JavaScript files (e.g. CSS) are not published to JSR and are ignored.
+ * A JSR subpath matching an npm subpath pattern counts as exported to npm.
+ *
+ * @param npm_exports - The exports field of package.json
+ * @param jsr_exports - The exports field of jsr.json, deno.json or deno.jsonc
+ * @returns The subpaths only exported to npm, and the ones only exported to JSR
+ * @example
+ * diff_jsr_subpaths(
+ *   { '.': { import: './dist/index.js' }, './utils': { import: './dist/utils.js' }, './theme.css': './dist/theme.css' },
+ *   { '.': './src/index.ts', './extra': './src/extra.ts' },
+ * )
+ * // { npm_only: ['./utils'], jsr_only: ['./extra'] }
+ */
+export const diff_jsr_subpaths = (
+	npm_exports: ExportMap,
+	jsr_exports: Record<string, unknown>,
+): { npm_only: string[]; jsr_only: string[] } => {
+	const npm_subpaths = Object.keys(npm_exports).filter((subpath) =>
+		collect_targets(npm_exports[subpath]).some((target) =>
+			/\.([cm]?js|d\.[cm]?ts)$/.test(target),
+		),
+	);
+	const jsr_subpaths = Object.keys(jsr_exports);
+
+	const is_covered = (subpath: string, by: string) => {
+		const [prefix, suffix] = by.split("*");
+
+		return suffix === undefined
+			? subpath === by
+			: subpath.length >= by.length &&
+					subpath.startsWith(prefix) &&
+					subpath.endsWith(suffix);
+	};
+
+	return {
+		npm_only: npm_subpaths.filter((subpath) =>
+			subpath.includes("*")
+				? !jsr_subpaths.some((jsr_subpath) => is_covered(jsr_subpath, subpath))
+				: !jsr_subpaths.includes(subpath),
+		),
+		jsr_only: jsr_subpaths.filter(
+			(subpath) =>
+				!npm_subpaths.some((npm_subpath) => is_covered(subpath, npm_subpath)),
+		),
+	};
+};
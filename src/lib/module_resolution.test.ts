@@ -0,0 +1,189 @@
+import fs from "node:fs";
+import typescript from "typescript";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { create_file, create_temp_directory } from "../test_utils";
+import type { ExportMap } from "../types";
+import {
+	type ResolutionMode,
+	resolve_export_map,
+	resolve_export_target,
+} from "./module_resolution";
+
+describe("resolve_export_map", () => {
+	let temp_dir: string;
+
+	const create_files = (file_paths: string[]) => {
+		for (const file_path of file_paths) {
+			create_file(temp_dir, file_path);
+		}
+	};
+
+	const problems = (exports: ExportMap, package_json = {}) =>
+		Object.fromEntries(
+			resolve_export_map(typescript, exports, temp_dir, {
+				name: "pkg",
+				type: "module",
+				...package_json,
+			}).map((resolution) => [
+				`${resolution.subpath} ${resolution.mode}`,
+				resolution.problem,
+			]),
+		) as Record<`${string} ${ResolutionMode}`, string | undefined>;
+
+	beforeEach(() => {
+		temp_dir = create_temp_directory();
+		create_files([
+			"dist/index.js",
+			"dist/index.d.ts",
+			"dist/index.cjs",
+			"dist/index.d.cts",
+		]);
+	});
+
+	afterEach(() => {
+		fs.rmSync(temp_dir, { recursive: true, force: true });
+	});
+
+	it("should resolve an ESM-only package under import conditions only", () => {
+		const result = resolve_export_map(
+			typescript,
+			{ ".": { types: "./dist/index.d.ts", import: "./dist/index.js" } },
+			temp_dir,
+			{ name: "pkg", type: "module" },
+		);
+
+		expect(
+			result.find((resolution) => resolution.mode === "node16-esm"),
+		).toEqual({
+			subpath: ".",
+			specifier: "pkg",
+			mode: "node16-esm",
+			types: { file_path: "./dist/index.d.ts", format: "esm" },
+			js: { file_path: "./dist/index.js", format: "esm" },
+			problem: undefined,
+		});
+		expect(
+			result.map((resolution) => [resolution.mode, resolution.problem]),
+		).toEqual([
+			["node10", "unresolved"],
+			["node16-esm", undefined],
+			["node16-cjs", "esm-only"],
+			["bundler", undefined],
+		]);
+	});
+
+	it("should resolve a dual package in every mode", () => {
+		const result = problems(
+			{
+				".": {
+					import: { types: "./dist/index.d.ts", default: "./dist/index.js" },
+					require: {
+						types: "./dist/index.d.cts",
+						default: "./dist/index.cjs",
+					},
+				},
+			},
+			{ types: "./dist/index.d.cts" },
+		);
+
+		expect(result).toEqual({
+			". node10": undefined,
+			". node16-esm": undefined,
+			". node16-cjs": undefined,
+			". bundler": undefined,
+		});
+	});
+
+	it("should report types and JavaScript of different formats", () => {
+		const result = problems({
+			".": {
+				types: "./dist/index.d.ts",
+				import: "./dist/index.js",
+				require: "./dist/index.cjs",
+			},
+		});
+
+		expect(result[". node16-cjs"]).toBe("format-mismatch");
+	});
+
+	it("should not compare formats under node10", () => {
+		const result = problems(
+			{
+				".": {
+					types: "./dist/index.d.ts",
+					import: "./dist/index.js",
+					require: "./dist/index.cjs",
+				},
+			},
+			{ types: "./dist/index.d.ts" },
+		);
+
+		expect(result[". node10"]).toBeUndefined();
+	});
+
+	it("should report subpaths without types", () => {
+		create_files(["dist/utils.js"]);
+
+		const result = problems({ "./utils": { import: "./dist/utils.js" } });
+
+		expect(result["./utils node16-esm"]).toBe("untyped");
+		expect(result["./utils bundler"]).toBe("untyped");
+	});
+
+	it("should verify the first file of pattern subpaths and skip assets", () => {
+		create_files(["dist/components/button.js", "dist/components/button.d.ts"]);
+
+		const result = resolve_export_map(
+			typescript,
+			{
+				"./components/*": {
+					types: "./dist/components/*.d.ts",
+					import: "./dist/components/*.js",
+				},
+				"./styles.css": { import: "./dist/styles.css" },
+			},
+			temp_dir,
+			{ name: "pkg", type: "module" },
+		);
+
+		expect(new Set(result.map((resolution) => resolution.specifier))).toEqual(
+			new Set(["pkg/components/button"]),
+		);
+		expect(
+			result.find((resolution) => resolution.mode === "bundler")?.problem,
+		).toBeUndefined();
+	});
+});
+
+describe("resolve_export_target", () => {
+	const exports: ExportMap = {
+		".": { import: "./dist/index.js", require: "./dist/index.cjs" },
+		"./*": { import: "./dist/*.js" },
+		"./components/*": { node: "./dist/components/*.node.js" },
+		"./internal/*": null,
+	};
+
+	it("should match the conditions in the order of the entry", () => {
+		expect(resolve_export_target(exports, ".", ["node", "require"])).toBe(
+			"./dist/index.cjs",
+		);
+	});
+
+	it("should use the pattern with the longest prefix", () => {
+		expect(
+			resolve_export_target(exports, "./components/button", ["node", "import"]),
+		).toBe("./dist/components/button.node.js");
+		expect(resolve_export_target(exports, "./utils", ["import"])).toBe(
+			"./dist/utils.js",
+		);
+	});
+
+	it("should not resolve excluded or unmatched subpaths", () => {
+		expect(
+			resolve_export_target(exports, "./internal/secret", ["import"]),
+		).toBeUndefined();
+		expect(
+			resolve_export_target(exports, "./utils", ["require"]),
+		).toBeUndefined();
+	});
+});
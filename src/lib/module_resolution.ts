@@ -0,0 +1,466 @@
+import path from "node:path";
+import glob from "fast-glob";
+import type ts from "typescript";
+import type { ExportMap } from "../types.js";
+import { collect_targets } from "./export_targets.js";
+
+/**
+ * Module resolution of a consumer, named after the TypeScript `moduleResolution` setting
+ */
+export type ResolutionMode = "node10" | "node16-esm" | "node16-cjs" | "bundler";
+
+export const RESOLUTION_MODES: ResolutionMode[] = [
+	"node10",
+	"node16-esm",
+	"node16-cjs",
+	"bundler",
+];
+
+export type ModuleFormat = "esm" | "cjs";
+
+/**
+ * File a specifier resolves to
+ */
+export type ResolvedFile = {
+	/** The path of the file, relative to the package (e.g. "./dist/index.d.ts") */
+	file_path: string;
+	format: ModuleFormat;
+};
+
+/**
+ * Outcome of a resolution that did not fully succeed
+ *
+ * - `unresolved`: neither types nor JavaScript resolve, the subpath is not available in this mode
+ * - `esm-only`: types resolve to ESM but JavaScript cannot be required, the subpath needs a dynamic import
+ * - `untyped`: JavaScript resolves without types
+ * - `missing-js`: types resolve without JavaScript
+ * - `format-mismatch`: types and JavaScript disagree on the module format
+ */
+export type ResolutionProblem =
+	| "unresolved"
+	| "esm-only"
+	| "untyped"
+	| "missing-js"
+	| "format-mismatch";
+
+/**
+ * Resolution of a subpath in a single mode
+ */
+export type SubpathResolution = {
+	subpath: string;
+	/** The specifier resolved, with the first matching file in place of "*" for pattern subpaths */
+	specifier: string;
+	mode: ResolutionMode;
+	types?: ResolvedFile;
+	js?: ResolvedFile;
+	problem?: ResolutionProblem;
+};
+
+/**
+ * Conditions matched when resolving the JavaScript file, besides "default"
+ *
+ * TypeScript users of node10 compile to CommonJS, whose require() honors exports at runtime.
+ */
+const JS_CONDITIONS: Record<ResolutionMode, string[]> = {
+	node10: ["node", "require"],
+	"node16-esm": ["node", "import"],
+	"node16-cjs": ["node", "require"],
+	bundler: ["import"],
+};
+
+/**
+ * Problems that make a subpath unusable in a mode where it resolves
+ */
+export const is_resolution_error = (
+	problem: ResolutionProblem | undefined,
+): boolean => {
+	return (
+		problem === "untyped" ||
+		problem === "missing-js" ||
+		problem === "format-mismatch"
+	);
+};
+
+/**
+ * Resolves every module subpath of an export map under each resolution mode
+ *
+ * Types are resolved by the TypeScript compiler, as if the package with the given exports was installed
+ * in node_modules. JavaScript files are resolved with the conditions Node.js or bundlers match at runtime.
+ * Subpaths that do not target JavaScript or declaration files (e.g. CSS) are skipped.
+ *
+ * @param typescript - The TypeScript compiler API
+ * @param exports - The export map to verify
+ * @param project_path - The absolute path of the package
+ * @param package_json - The content of package.json, its exports being replaced by the export map
+ * @returns The resolution of each subpath in each mode
+ * @example
+ * resolve_export_map(typescript, { '.': { types: './dist/index.d.ts', import: './dist/index.js' } }, '/path/to/project', { name: 'pkg', type: 'module' })
+ * // [
+ * //   { subpath: '.', specifier: 'pkg', mode: 'node10', types: undefined, js: undefined, problem: 'unresolved' },
+ * //   { subpath: '.', specifier: 'pkg', mode: 'node16-esm', types: { file_path: './dist/index.d.ts', format: 'esm' }, js: { file_path: './dist/index.js', format: 'esm' } },
+ * //   ...
+ * // ]
+ */
+export const resolve_export_map = (
+	typescript: typeof ts,
+	exports: ExportMap,
+	project_path: string,
+	package_json: Record<string, unknown>,
+): SubpathResolution[] => {
+	const package_name =
+		typeof package_json.name === "string" ? package_json.name : "package";
+	const package_type = package_json.type === "module" ? "esm" : "cjs";
+	const resolve_types = create_types_resolver(
+		typescript,
+		project_path,
+		package_name,
+		{ ...package_json, exports },
+	);
+	const resolutions: SubpathResolution[] = [];
+
+	for (const [subpath, entry] of Object.entries(exports)) {
+		if (!is_module_entry(entry)) {
+			continue;
+		}
+
+		// a single file of a pattern subpath is verified
+		const [substitution] = subpath.includes("*")
+			? find_pattern_substitutions(entry, project_path)
+			: [""];
+
+		if (substitution === undefined) {
+			continue;
+		}
+
+		const resolved_subpath = subpath.replace("*", substitution);
+		const specifier =
+			resolved_subpath === "."
+				? package_name
+				: `${package_name}/${resolved_subpath.slice(2)}`;
+
+		for (const mode of RESOLUTION_MODES) {
+			const types = resolve_types(specifier, mode);
+			const js_target = resolve_export_target(
+				exports,
+				resolved_subpath,
+				JS_CONDITIONS[mode],
+			);
+			const js =
+				js_target !== undefined &&
+				typescript.sys.fileExists(path.join(project_path, js_target))
+					? {
+							file_path: `./${path.posix.normalize(js_target)}`,
+							format: read_format(js_target, package_type),
+						}
+					: undefined;
+
+			resolutions.push({
+				subpath,
+				specifier,
+				mode,
+				types,
+				js,
+				problem: find_problem(types, js, mode),
+			});
+		}
+	}
+
+	return resolutions;
+};
+
+/**
+ * Finds the problem of a resolution, undefined when types and JavaScript agree
+ *
+ * node10 has no notion of module format, so only the presence of types and JavaScript is checked there.
+ */
+const find_problem = (
+	types: ResolvedFile | undefined,
+	js: ResolvedFile | undefined,
+	mode: ResolutionMode,
+): ResolutionProblem | undefined => {
+	if (types === undefined && js === undefined) {
+		return "unresolved";
+	}
+
+	if (types === undefined) {
+		return "untyped";
+	}
+
+	if (js === undefined) {
+		const is_require = JS_CONDITIONS[mode].includes("require");
+
+		return is_require && types.format === "esm" ? "esm-only" : "missing-js";
+	}
+
+	return mode === "node10" || types.format === js.format
+		? undefined
+		: "format-mismatch";
+};
+
+/**
+ * Creates a function resolving the declaration file of a specifier with the TypeScript compiler
+ *
+ * The package is mounted in a virtual node_modules directory, with the given package.json, so that
+ * the exports are resolved as an installed dependency without writing anything. The virtual directory
+ * sits outside the package, where TypeScript would resolve the package name to itself from disk.
+ */
+const create_types_resolver = (
+	typescript: typeof ts,
+	project_path: string,
+	package_name: string,
+	package_json: Record<string, unknown>,
+) => {
+	const virtual_root = path.join(path.parse(project_path).root, "__xportify__");
+	const virtual_package = path.join(virtual_root, "node_modules", package_name);
+	const virtual_package_json = path.join(virtual_package, "package.json");
+	const containing_file = path.join(virtual_root, "index.ts");
+	const package_type = package_json.type === "module" ? "esm" : "cjs";
+
+	const is_in_package = (file_path: string) =>
+		file_path === virtual_package ||
+		file_path.startsWith(`${virtual_package}/`);
+	const to_real_path = (file_path: string) =>
+		is_in_package(file_path)
+			? path.join(project_path, file_path.slice(virtual_package.length))
+			: file_path;
+
+	const host: ts.ModuleResolutionHost = {
+		fileExists: (file_path) =>
+			file_path === virtual_package_json ||
+			typescript.sys.fileExists(to_real_path(file_path)),
+		readFile: (file_path) =>
+			file_path === virtual_package_json
+				? JSON.stringify(package_json)
+				: typescript.sys.readFile(to_real_path(file_path)),
+		directoryExists: (directory) =>
+			virtual_package === directory ||
+			virtual_package.startsWith(`${directory}/`) ||
+			typescript.sys.directoryExists(to_real_path(directory)),
+		realpath: (file_path) => file_path,
+		getCurrentDirectory: () => project_path,
+	};
+
+	const { ModuleKind, ModuleResolutionKind } = typescript;
+	const settings: Record<
+		ResolutionMode,
+		{ options: ts.CompilerOptions; resolution_mode?: ts.ResolutionMode }
+	> = {
+		node10: { options: { moduleResolution: ModuleResolutionKind.Node10 } },
+		"node16-esm": {
+			options: {
+				moduleResolution: ModuleResolutionKind.Node16,
+				module: ModuleKind.Node16,
+			},
+			resolution_mode: ModuleKind.ESNext,
+		},
+		"node16-cjs": {
+			options: {
+				moduleResolution: ModuleResolutionKind.Node16,
+				module: ModuleKind.Node16,
+			},
+			resolution_mode: ModuleKind.CommonJS,
+		},
+		bundler: {
+			options: {
+				moduleResolution: ModuleResolutionKind.Bundler,
+				module: ModuleKind.ESNext,
+			},
+		},
+	};
+
+	return (
+		specifier: string,
+		mode: ResolutionMode,
+	): ResolvedFile | undefined => {
+		const { options, resolution_mode } = settings[mode];
+		const { resolvedModule } = typescript.resolveModuleName(
+			specifier,
+			containing_file,
+			options,
+			host,
+			undefined,
+			undefined,
+			resolution_mode,
+		);
+
+		// a resolved JavaScript file means the subpath has no types
+		if (
+			resolvedModule === undefined ||
+			!is_in_package(resolvedModule.resolvedFileName) ||
+			!/\.(d\.[cm]?ts|[cm]?tsx?)$/.test(resolvedModule.resolvedFileName)
+		) {
+			return undefined;
+		}
+
+		const file_path = `./${path.relative(virtual_package, resolvedModule.resolvedFileName).split(path.sep).join("/")}`;
+
+		return { file_path, format: read_format(file_path, package_type) };
+	};
+};
+
+/**
+ * Resolves the target of a subpath with the given conditions, following the Node.js algorithm
+ *
+ * @param exports - The export map
+ * @param subpath - The subpath, without "*"
+ * @param conditions - The matched conditions, besides "default"
+ * @returns The target path, or undefined if the subpath does not resolve
+ * @example
+ * resolve_export_target({ './*': { require: './dist/*.cjs' } }, './utils', ['node', 'require']) // './dist/utils.cjs'
+ */
+export const resolve_export_target = (
+	exports: ExportMap,
+	subpath: string,
+	conditions: string[],
+): string | undefined => {
+	if (subpath in exports && !subpath.includes("*")) {
+		return select_target(exports[subpath], conditions) ?? undefined;
+	}
+
+	// the pattern with the longest prefix wins
+	let best: { key: string; substitution: string } | undefined;
+
+	for (const key of Object.keys(exports)) {
+		const [prefix, suffix, ...rest] = key.split("*");
+
+		if (
+			suffix === undefined ||
+			rest.length > 0 ||
+			!subpath.startsWith(prefix) ||
+			!subpath.endsWith(suffix) ||
+			subpath.length < key.length
+		) {
+			continue;
+		}
+
+		if (best === undefined || prefix.length > best.key.indexOf("*")) {
+			best = {
+				key,
+				substitution: subpath.slice(
+					prefix.length,
+					subpath.length - suffix.length,
+				),
+			};
+		}
+	}
+
+	if (best === undefined) {
+		return undefined;
+	}
+
+	const { substitution } = best;
+
+	return (
+		select_target(exports[best.key], conditions)?.replace(
+			/\*/g,
+			substitution,
+		) ?? undefined
+	);
+};
+
+/**
+ * Selects the target matching the conditions, in the order of the entry
+ *
+ * @returns The target, null if the subpath is explicitly excluded, undefined if no condition matches
+ */
+const select_target = (
+	entry: unknown,
+	conditions: string[],
+): string | null | undefined => {
+	if (typeof entry === "string") {
+		return entry;
+	}
+
+	if (Array.isArray(entry)) {
+		for (const item of entry) {
+			const target = select_target(item, conditions);
+
+			if (target !== undefined) {
+				return target;
+			}
+		}
+
+		return undefined;
+	}
+
+	if (typeof entry === "object" && entry !== null) {
+		for (const [condition, value] of Object.entries(entry)) {
+			if (condition !== "default" && !conditions.includes(condition)) {
+				continue;
+			}
+
+			const target = select_target(value, conditions);
+
+			if (target !== undefined) {
+				return target;
+			}
+		}
+
+		return undefined;
+	}
+
+	return entry === null ? null : undefined;
+};
+
+/**
+ * Determines if an entry targets JavaScript or declaration files
+ */
+const is_module_entry = (entry: unknown): boolean => {
+	return collect_targets(entry).some((target) =>
+		/\.([cm]?js|d\.[cm]?ts)$/.test(target),
+	);
+};
+
+/**
+ * Finds the "*" substitutions of every file matched by the pattern targets of an entry
+ *
+ * @param entry - The entry of a pattern subpath
+ * @param project_path - The absolute path of the package
+ * @param is_target - Filters the pattern targets to match, every one by default
+ * @returns The substitutions, sorted
+ * @example
+ * find_pattern_substitutions({ import: './dist/components/*.js' }, '/path/to/project') // ['button', 'card']
+ */
+export const find_pattern_substitutions = (
+	entry: unknown,
+	project_path: string,
+	is_target: (target: string) => boolean = () => true,
+): string[] => {
+	const substitutions = new Set<string>();
+
+	for (const target of collect_targets(entry)) {
+		if (!target.includes("*") || !is_target(target)) {
+			continue;
+		}
+
+		const [prefix, suffix] = target.replace(/^\.\//, "").split("*");
+
+		for (const file_path of glob.sync(`${prefix}**/*${suffix}`, {
+			cwd: project_path,
+		})) {
+			substitutions.add(
+				file_path.slice(prefix.length, file_path.length - suffix.length),
+			);
+		}
+	}
+
+	return [...substitutions].sort();
+};
+
+/**
+ * Reads the module format of a file from its extension, or from the package type for .js and .d.ts
+ */
+const read_format = (
+	file_path: string,
+	package_type: ModuleFormat,
+): ModuleFormat => {
+	if (/\.(mjs|d\.mts|mts)$/.test(file_path)) {
+		return "esm";
+	}
+
+	if (/\.(cjs|d\.cts|cts)$/.test(file_path)) {
+		return "cjs";
+	}
+
+	return package_type;
+};
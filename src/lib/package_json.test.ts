@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { detect_json_format, set_json_fields } from "./package_json";
+
+describe("detect_json_format", () => {
+	it("should detect tabs, CRLF and final newline", () => {
+		expect(detect_json_format('{\r\n\t"name": "pkg"\r\n}\r\n')).toEqual({
+			indent: "\t",
+			eol: "\r\n",
+			final_newline: true,
+		});
+	});
+
+	it("should detect 4 spaces without final newline", () => {
+		expect(detect_json_format('{\n    "name": "pkg"\n}')).toEqual({
+			indent: "    ",
+			eol: "\n",
+			final_newline: false,
+		});
+	});
+
+	it("should default to 2 spaces for a single-line file", () => {
+		expect(detect_json_format('{"name":"pkg"}').indent).toBe("  ");
+	});
+});
+
+describe("set_json_fields", () => {
+	it("should append a missing field with the file indentation", () => {
+		const content = '{\n\t"name": "pkg",\n\t"version": "1.0.0"\n}\n';
+
+		const result = set_json_fields(content, {
+			exports: { ".": { import: "./dist/index.js" } },
+		});
+
+		expect(result).toBe(
+			'{\n\t"name": "pkg",\n\t"version": "1.0.0",\n\t"exports": {\n\t\t".": {\n\t\t\t"import": "./dist/index.js"\n\t\t}\n\t}\n}\n',
+		);
+	});
+
+	it("should replace an existing field in place", () => {
+		const content =
+			'{\n  "name": "pkg",\n  "exports": "./old.js",\n  "scripts": { "build": "tsdown" }\n}';
+
+		const result = set_json_fields(content, {
+			exports: { ".": "./dist/index.js" },
+		});
+
+		expect(result).toBe(
+			'{\n  "name": "pkg",\n  "exports": {\n    ".": "./dist/index.js"\n  },\n  "scripts": { "build": "tsdown" }\n}',
+		);
+	});
+
+	it("should keep CRLF line endings", () => {
+		const content = '{\r\n\t"name": "pkg"\r\n}\r\n';
+
+		const result = set_json_fields(content, { exports: { ".": "./a.js" } });
+
+		expect(result).toBe(
+			'{\r\n\t"name": "pkg",\r\n\t"exports": {\r\n\t\t".": "./a.js"\r\n\t}\r\n}\r\n',
+		);
+	});
+
+	it("should leave the text untouched when the value is unchanged", () => {
+		const content = '{\n\t"name": "pkg",\n\t"exports": { ".": "./a.js" }\n}\n';
+
+		expect(set_json_fields(content, { exports: { ".": "./a.js" } })).toBe(
+			content,
+		);
+	});
+
+	it("should add a field to an empty object", () => {
+		expect(set_json_fields("{}\n", { name: "pkg" })).toBe(
+			'{\n  "name": "pkg"\n}\n',
+		);
+	});
+
+	it("should remove a field set to undefined", () => {
+		const content = '{\n\t"name": "pkg",\n\t"module": "./a.js",\n\t"x": 1\n}\n';
+
+		expect(set_json_fields(content, { module: undefined })).toBe(
+			'{\n\t"name": "pkg",\n\t"x": 1\n}\n',
+		);
+		expect(set_json_fields(content, { name: undefined })).toBe(
+			'{\n\t"module": "./a.js",\n\t"x": 1\n}\n',
+		);
+	});
+
+	it("should not be confused by braces and quotes inside strings", () => {
+		const content =
+			'{\n\t"description": "a \\"quoted\\" {brace}",\n\t"exports": {}\n}\n';
+
+		const result = set_json_fields(content, { exports: { ".": "./a.js" } });
+
+		expect(JSON.parse(result)).toEqual({
+			description: 'a "quoted" {brace}',
+			exports: { ".": "./a.js" },
+		});
+	});
+
+	it("should keep the comments between properties", () => {
+		const content =
+			'{\n\t// published to JSR\n\t"name": "@scope/pkg",\n\t/* exports */\n\t"exports": {}\n}\n';
+
+		expect(set_json_fields(content, { exports: { ".": "./a.ts" } })).toBe(
+			'{\n\t// published to JSR\n\t"name": "@scope/pkg",\n\t/* exports */\n\t"exports": {\n\t\t".": "./a.ts"\n\t}\n}\n',
+		);
+	});
+});
@@ -0,0 +1,295 @@
+import { parse_jsonc } from "./tsconfig.js";
+
+/**
+ * Formatting of an existing JSON file
+ */
+export type JsonFormat = {
+	/** Indentation of one level (tab or spaces) */
+	indent: string;
+	/** Line ending */
+	eol: "\n" | "\r\n";
+	/** Whether the file ends with a line ending */
+	final_newline: boolean;
+};
+
+/**
+ * Position of a top-level property in a JSON text
+ */
+type JsonProperty = {
+	key: string;
+	key_start: number;
+	value_start: number;
+	value_end: number;
+};
+
+/**
+ * Detects the indentation, line endings and final newline of a JSON text
+ *
+ * @param content - The JSON text
+ * @returns The detected format, 2 spaces and LF by default
+ * @example
+ * detect_json_format('{\r\n\t"name": "pkg"\r\n}\r\n')
+ * // { indent: '\t', eol: '\r\n', final_newline: true }
+ */
+export const detect_json_format = (content: string): JsonFormat => {
+	const indent_match = content.match(/\n([ \t]+)\S/);
+
+	return {
+		indent: indent_match ? indent_match[1] : "  ",
+		eol: content.includes("\r\n") ? "\r\n" : "\n",
+		final_newline: /\n$/.test(content),
+	};
+};
+
+/**
+ * Sets top-level fields of a JSON object text while preserving its formatting
+ *
+ * Only the values of the given fields are rewritten: unchanged fields keep their original text,
+ * new fields are appended at the end of the object and undefined values remove the field. Comments
+ * between top-level properties are kept, as in deno.jsonc.
+ *
+ * @param content - The JSON text of an object (e.g. package.json)
+ * @param fields - The fields to set, indexed by key
+ * @returns The updated JSON text
+ * @example
+ * set_json_fields('{\n\t"name": "pkg"\n}\n', { exports: { '.': './index.js' } })
+ * // '{\n\t"name": "pkg",\n\t"exports": {\n\t\t".": "./index.js"\n\t}\n}\n'
+ */
+export const set_json_fields = (
+	content: string,
+	fields: Record<string, unknown>,
+): string => {
+	const format = detect_json_format(content);
+	const current = parse_jsonc(content);
+	let updated = content;
+
+	for (const [key, value] of Object.entries(fields)) {
+		if (JSON.stringify(current[key]) === JSON.stringify(value)) {
+			continue;
+		}
+
+		updated =
+			value === undefined
+				? remove_property(updated, key)
+				: set_property(updated, key, value, format);
+	}
+
+	return updated;
+};
+
+/**
+ * Replaces the value of a top-level property, or appends it when missing
+ */
+const set_property = (
+	content: string,
+	key: string,
+	value: unknown,
+	format: JsonFormat,
+): string => {
+	const { properties, object_end } = scan_top_level_properties(content);
+	const property = properties.find((candidate) => candidate.key === key);
+
+	if (property !== undefined) {
+		const base_indent = line_indent(content, property.key_start);
+
+		return (
+			content.slice(0, property.value_start) +
+			stringify_value(value, base_indent, format) +
+			content.slice(property.value_end)
+		);
+	}
+
+	const member = (base_indent: string) =>
+		`${base_indent}${JSON.stringify(key)}: ${stringify_value(value, base_indent, format)}`;
+
+	const last_property = properties[properties.length - 1];
+
+	if (last_property === undefined) {
+		const object_start = content.lastIndexOf("{", object_end);
+		const closing_indent = line_indent(content, object_start);
+
+		return (
+			content.slice(0, object_start + 1) +
+			format.eol +
+			member(closing_indent + format.indent) +
+			format.eol +
+			closing_indent +
+			content.slice(object_end)
+		);
+	}
+
+	return (
+		content.slice(0, last_property.value_end) +
+		`,${format.eol}` +
+		member(line_indent(content, last_property.key_start)) +
+		content.slice(last_property.value_end)
+	);
+};
+
+/**
+ * Removes a top-level property along with its separating comma
+ */
+const remove_property = (content: string, key: string): string => {
+	const { properties } = scan_top_level_properties(content);
+	const index = properties.findIndex((candidate) => candidate.key === key);
+
+	if (index === -1) {
+		return content;
+	}
+
+	const property = properties[index];
+
+	if (index > 0) {
+		return (
+			content.slice(0, properties[index - 1].value_end) +
+			content.slice(property.value_end)
+		);
+	}
+
+	const next_property = properties[index + 1];
+
+	if (next_property !== undefined) {
+		return (
+			content.slice(0, property.key_start) +
+			content.slice(next_property.key_start)
+		);
+	}
+
+	const object_start = content.lastIndexOf("{", property.key_start);
+	const object_end = content.indexOf("}", property.value_end);
+
+	return content.slice(0, object_start + 1) + content.slice(object_end);
+};
+
+/**
+ * Serializes a value, indenting every line after the first one with the indentation of its property
+ */
+const stringify_value = (
+	value: unknown,
+	base_indent: string,
+	format: JsonFormat,
+): string => {
+	return JSON.stringify(value, null, format.indent)
+		.split("\n")
+		.join(`${format.eol}${base_indent}`);
+};
+
+/**
+ * Returns the leading whitespace of the line containing the given position
+ */
+const line_indent = (content: string, position: number): string => {
+	const line_start = content.lastIndexOf("\n", position - 1) + 1;
+
+	return content.slice(line_start).match(/^[ \t]*/)?.[0] ?? "";
+};
+
+/**
+ * Scans the top-level properties of a JSON object text and their positions
+ */
+const scan_top_level_properties = (
+	content: string,
+): { properties: JsonProperty[]; object_end: number } => {
+	const properties: JsonProperty[] = [];
+	let position = skip_whitespace(content, 0);
+
+	if (content[position] !== "{") {
+		throw new Error("Expected a JSON object.");
+	}
+
+	position = skip_whitespace(content, position + 1);
+
+	while (content[position] !== "}") {
+		const key_start = position;
+		const key_end = skip_value(content, key_start);
+		const key = JSON.parse(content.slice(key_start, key_end));
+
+		position = skip_whitespace(content, key_end);
+		// skip the colon
+		position = skip_whitespace(content, position + 1);
+
+		const value_start = position;
+		const value_end = skip_value(content, value_start);
+
+		properties.push({ key, key_start, value_start, value_end });
+
+		position = skip_whitespace(content, value_end);
+
+		if (content[position] === ",") {
+			position = skip_whitespace(content, position + 1);
+		}
+	}
+
+	return { properties, object_end: position };
+};
+
+/**
+ * Returns the position of the next character that is neither whitespace nor part of a comment
+ */
+const skip_whitespace = (content: string, position: number): number => {
+	let current = position;
+
+	while (current < content.length) {
+		if (/\s/.test(content[current])) {
+			current++;
+		} else if (content.startsWith("//", current)) {
+			const end = content.indexOf("\n", current);
+			current = end === -1 ? content.length : end;
+		} else if (content.startsWith("/*", current)) {
+			const end = content.indexOf("*/", current + 2);
+			current = end === -1 ? content.length : end + 2;
+		} else {
+			break;
+		}
+	}
+
+	return current;
+};
+
+/**
+ * Returns the position right after the JSON value starting at the given position
+ */
+const skip_value = (content: string, position: number): number => {
+	const first_char = content[position];
+
+	if (first_char === '"') {
+		let current = position + 1;
+
+		while (content[current] !== '"') {
+			current += content[current] === "\\" ? 2 : 1;
+		}
+
+		return current + 1;
+	}
+
+	if (first_char === "{" || first_char === "[") {
+		let depth = 0;
+		let current = position;
+
+		do {
+			const char = content[current];
+
+			if (char === '"') {
+				current = skip_value(content, current);
+				continue;
+			}
+
+			if (char === "{" || char === "[") {
+				depth++;
+			} else if (char === "}" || char === "]") {
+				depth--;
+			}
+
+			current++;
+		} while (depth > 0);
+
+		return current;
+	}
+
+	let current = position;
+
+	while (current < content.length && !/[\s,}\]]/.test(content[current])) {
+		current++;
+	}
+
+	return current;
+};
@@ -0,0 +1,190 @@
+import fs from "node:fs";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { create_file, create_temp_directory } from "../test_utils";
+import {
+	add_files_entries,
+	find_unpacked_targets,
+	list_packed_files,
+} from "./packed_files";
+
+describe("list_packed_files", () => {
+	let temp_dir: string;
+
+	const write_files = (files: Record<string, string>) => {
+		for (const [file_path, content] of Object.entries(files)) {
+			create_file(temp_dir, file_path, content);
+		}
+	};
+
+	beforeEach(() => {
+		temp_dir = create_temp_directory();
+	});
+
+	afterEach(() => {
+		fs.rmSync(temp_dir, { recursive: true, force: true });
+	});
+
+	it("should only pack the files matching the files field", () => {
+		write_files({
+			"package.json": "{}",
+			"README.md": "",
+			LICENSE: "",
+			"dist/index.js": "",
+			"dist/utils/index.js": "",
+			"src/index.ts": "",
+		});
+
+		const packed = list_packed_files(temp_dir, { files: ["dist"] });
+
+		expect([...packed].sort()).toEqual([
+			"LICENSE",
+			"README.md",
+			"dist/index.js",
+			"dist/utils/index.js",
+			"package.json",
+		]);
+	});
+
+	it("should apply negated and glob entries of the files field", () => {
+		write_files({
+			"dist/index.js": "",
+			"dist/index.js.map": "",
+			"dist/index.d.ts": "",
+		});
+
+		const packed = list_packed_files(temp_dir, {
+			files: ["dist/**/*.js", "dist/*.d.ts", "!dist/*.d.ts"],
+		});
+
+		expect([...packed]).toEqual(["dist/index.js"]);
+	});
+
+	it("should pack the main and bin files", () => {
+		write_files({
+			"lib/main.js": "",
+			"bin/cli.js": "",
+			"lib/other.js": "",
+		});
+
+		const packed = list_packed_files(temp_dir, {
+			files: [],
+			main: "./lib/main.js",
+			bin: { cli: "bin/cli.js" },
+		});
+
+		expect([...packed].sort()).toEqual(["bin/cli.js", "lib/main.js"]);
+	});
+
+	it("should exclude the files matching .npmignore without files field", () => {
+		write_files({
+			".npmignore": "src\n*.map\n!keep.map\n",
+			".gitignore": "dist\n",
+			"dist/index.js": "",
+			"dist/index.js.map": "",
+			"dist/keep.map": "",
+			"src/index.ts": "",
+		});
+
+		const packed = list_packed_files(temp_dir, {});
+
+		expect([...packed].sort()).toEqual(["dist/index.js", "dist/keep.map"]);
+	});
+
+	it("should fall back to .gitignore when there is no .npmignore", () => {
+		write_files({
+			".gitignore": "/coverage\n",
+			"coverage/index.html": "",
+			"dist/coverage/index.js": "",
+		});
+
+		const packed = list_packed_files(temp_dir, {});
+
+		expect([...packed]).toEqual(["dist/coverage/index.js"]);
+	});
+
+	it("should apply nested .npmignore files even with a files field", () => {
+		write_files({
+			".npmignore": "dist\n",
+			"dist/.npmignore": "*.test.js\n",
+			"dist/index.js": "",
+			"dist/index.test.js": "",
+		});
+
+		const packed = list_packed_files(temp_dir, { files: ["dist"] });
+
+		expect([...packed]).toEqual(["dist/index.js"]);
+	});
+
+	it("should never pack lockfiles and junk files", () => {
+		write_files({
+			"pnpm-lock.yaml": "",
+			".npmrc": "",
+			"dist/.DS_Store": "",
+			"dist/index.js": "",
+		});
+
+		const packed = list_packed_files(temp_dir, {});
+
+		expect([...packed]).toEqual(["dist/index.js"]);
+	});
+});
+
+describe("find_unpacked_targets", () => {
+	let temp_dir: string;
+
+	beforeEach(() => {
+		temp_dir = create_temp_directory();
+		create_file(temp_dir, "icons/home.svg");
+		create_file(temp_dir, "icons/arrows/left.svg");
+	});
+
+	afterEach(() => {
+		fs.rmSync(temp_dir, { recursive: true, force: true });
+	});
+
+	it("should report the targets that are not packed", () => {
+		const result = find_unpacked_targets(
+			{
+				".": {
+					types: "./dist/index.d.ts",
+					import: "./dist/index.js",
+				},
+				"./utils": { import: "./lib/utils.js" },
+			},
+			temp_dir,
+			new Set(["dist/index.d.ts", "dist/index.js"]),
+		);
+
+		expect(result).toEqual([{ subpath: "./utils", target: "./lib/utils.js" }]);
+	});
+
+	it("should report pattern targets matching unpacked files", () => {
+		const exports = { "./icons/*": "./icons/*.svg" };
+
+		expect(
+			find_unpacked_targets(exports, temp_dir, new Set(["icons/home.svg"])),
+		).toEqual([{ subpath: "./icons/*", target: "./icons/*.svg" }]);
+		expect(
+			find_unpacked_targets(
+				exports,
+				temp_dir,
+				new Set(["icons/home.svg", "icons/arrows/left.svg"]),
+			),
+		).toEqual([]);
+	});
+});
+
+describe("add_files_entries", () => {
+	it("should add the unpacked targets once", () => {
+		const result = add_files_entries(
+			["dist"],
+			[
+				{ subpath: "./utils", target: "./lib/utils.js" },
+				{ subpath: "./icons/*", target: "./icons/*.svg" },
+				{ subpath: "./helpers", target: "./lib/utils.js" },
+			],
+		);
+
+		expect(result).toEqual(["dist", "lib/utils.js", "icons/**/*.svg"]);
+	});
+});
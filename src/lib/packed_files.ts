@@ -0,0 +1,343 @@
+import fs from "node:fs";
+import path from "node:path";
+import glob from "fast-glob";
+import type { ExportMap } from "../types.js";
+import { collect_targets } from "./export_targets.js";
+
+/**
+ * Files that npm never packs, whatever the files field and ignore files say
+ */
+const ALWAYS_EXCLUDED_PATTERNS = [
+	".git",
+	".svn",
+	".hg",
+	"CVS",
+	".npmrc",
+	".DS_Store",
+	"._*",
+	".*.swp",
+	"*.orig",
+	"npm-debug.log",
+	".npmignore",
+	".gitignore",
+	"/.lock-wscript",
+	"/.wafpickle-*",
+	"/build/config.gypi",
+	"/package-lock.json",
+	"/yarn.lock",
+	"/pnpm-lock.yaml",
+	"/archived-packages",
+];
+
+/**
+ * Root files that npm always packs
+ */
+const ALWAYS_INCLUDED_FILES =
+	/^(package\.json|(readme|license|licence|copying)(\.[^/]*)?)$/i;
+
+/**
+ * Export target that npm would not pack
+ */
+export type UnpackedTarget = {
+	subpath: string;
+	target: string;
+};
+
+/**
+ * Lists the files npm would pack, offline, following the inclusion rules of npm
+ *
+ * - package.json, README, LICENSE and the main and bin files are always packed
+ * - with a "files" field, only the files matching its entries are packed, and the .npmignore
+ *   files of subdirectories exclude files from them
+ * - without it, every file is packed except the ones excluded by .npmignore files, or by
+ *   .gitignore files in directories without .npmignore
+ * - node_modules, VCS directories, lockfiles and other junk files are never packed
+ *
+ * @param project_path - The absolute path of the package
+ * @param package_json - The content of package.json
+ * @returns The packed files, relative to the package with "/" separators
+ * @example
+ * list_packed_files('/path/to/project', { files: ['dist'] })
+ * // Set { 'package.json', 'README.md', 'dist/index.js', 'dist/index.d.ts' }
+ */
+export const list_packed_files = (
+	project_path: string,
+	package_json: Record<string, unknown>,
+): Set<string> => {
+	const file_paths = glob.sync("**/*", {
+		cwd: project_path,
+		dot: true,
+		ignore: ["**/node_modules/**", "**/.git/**"],
+	});
+
+	const always_excluded = ALWAYS_EXCLUDED_PATTERNS.map((pattern) =>
+		ignore_pattern_to_regexp(pattern, ""),
+	);
+	const entry_files = new Set(
+		[package_json.main, ...read_bin_files(package_json.bin)]
+			.filter((file_path): file_path is string => typeof file_path === "string")
+			.map(normalize_file_path),
+	);
+	const files_rules = Array.isArray(package_json.files)
+		? package_json.files
+				.filter((entry): entry is string => typeof entry === "string")
+				.map(files_entry_to_rule)
+		: undefined;
+	const ignore_rules = read_ignore_rules(project_path, file_paths);
+
+	const packed = new Set<string>();
+
+	for (const file_path of file_paths) {
+		if (always_excluded.some((regexp) => regexp.test(file_path))) {
+			continue;
+		}
+
+		if (ALWAYS_INCLUDED_FILES.test(file_path) || entry_files.has(file_path)) {
+			packed.add(file_path);
+			continue;
+		}
+
+		// with a files field, the .npmignore of the root directory is not used
+		let included =
+			files_rules === undefined
+				? true
+				: apply_rules(files_rules, file_path, false);
+
+		for (const { directory, rules } of ignore_rules) {
+			const is_in_directory =
+				directory === "" || file_path.startsWith(`${directory}/`);
+
+			if (is_in_directory && !(files_rules !== undefined && directory === "")) {
+				included = !apply_rules(rules, file_path, !included);
+			}
+		}
+
+		if (included) {
+			packed.add(file_path);
+		}
+	}
+
+	return packed;
+};
+
+/**
+ * Finds the export targets that npm would not pack
+ *
+ * A pattern target is reported when one of the files it matches is not packed.
+ *
+ * @param exports - The export map
+ * @param project_path - The absolute path of the package
+ * @param packed_files - The files npm would pack
+ * @returns The targets that are not packed
+ * @example
+ * find_unpacked_targets({ './utils': { import: './lib/utils.js' } }, '/path/to/project', new Set(['package.json', 'dist/index.js']))
+ * // [{ subpath: './utils', target: './lib/utils.js' }]
+ */
+export const find_unpacked_targets = (
+	exports: ExportMap,
+	project_path: string,
+	packed_files: Set<string>,
+): UnpackedTarget[] => {
+	const unpacked: UnpackedTarget[] = [];
+
+	for (const [subpath, entry] of Object.entries(exports)) {
+		for (const target of collect_targets(entry)) {
+			const file_path = normalize_file_path(target);
+			const matched_file_paths = file_path.includes("*")
+				? glob.sync(file_path.replace(/\*/g, "**/*"), {
+						cwd: project_path,
+						dot: true,
+					})
+				: [file_path];
+
+			if (matched_file_paths.some((matched) => !packed_files.has(matched))) {
+				unpacked.push({ subpath, target });
+			}
+		}
+	}
+
+	return unpacked;
+};
+
+/**
+ * Adds the unpacked targets to the entries of the files field
+ *
+ * Pattern targets are added as globs matching the same files.
+ *
+ * @param files - The current files field
+ * @param unpacked_targets - The targets that npm would not pack
+ * @returns The files field including the targets
+ * @example
+ * add_files_entries(['dist'], [{ subpath: './utils', target: './lib/utils.js' }, { subpath: './icons/*', target: './icons/*.svg' }])
+ * // ['dist', 'lib/utils.js', 'icons/**\/*.svg']
+ */
+export const add_files_entries = (
+	files: string[],
+	unpacked_targets: UnpackedTarget[],
+): string[] => {
+	const entries = [...files];
+
+	for (const { target } of unpacked_targets) {
+		const entry = normalize_file_path(target).replace(/\*/g, "**/*");
+
+		if (!entries.includes(entry)) {
+			entries.push(entry);
+		}
+	}
+
+	return entries;
+};
+
+/**
+ * Rule of a files field or ignore file, tested against paths relative to the package
+ */
+type Rule = { regexp: RegExp; negated: boolean };
+
+/**
+ * Applies rules in order, the last matching rule wins
+ *
+ * @returns Whether the file is matched by the rules (included for files entries, ignored for ignore files)
+ */
+const apply_rules = (
+	rules: Rule[],
+	file_path: string,
+	initial: boolean,
+): boolean => {
+	let matched = initial;
+
+	for (const rule of rules) {
+		if (rule.regexp.test(file_path)) {
+			matched = !rule.negated;
+		}
+	}
+
+	return matched;
+};
+
+/**
+ * Reads the ignore rules of every directory, from the root to the deepest
+ *
+ * Each directory uses its .npmignore file, or its .gitignore file when it has no .npmignore.
+ */
+const read_ignore_rules = (
+	project_path: string,
+	file_paths: string[],
+): { directory: string; rules: Rule[] }[] => {
+	const directories = new Set(
+		file_paths
+			.filter((file_path) => /(^|\/)\.(npm|git)ignore$/.test(file_path))
+			.map((file_path) => path.posix.dirname(file_path))
+			.map((directory) => (directory === "." ? "" : directory)),
+	);
+
+	return [...directories]
+		.sort((a, b) => a.split("/").length - b.split("/").length)
+		.map((directory) => {
+			const ignore_file = [".npmignore", ".gitignore"]
+				.map((file_name) => path.join(project_path, directory, file_name))
+				.find((file_path) => fs.existsSync(file_path)) as string;
+
+			const rules = fs
+				.readFileSync(ignore_file, "utf8")
+				.split(/\r?\n/)
+				.map((line) => line.trim())
+				.filter((line) => line !== "" && !line.startsWith("#"))
+				.map((line) => ({
+					regexp: ignore_pattern_to_regexp(line.replace(/^!/, ""), directory),
+					negated: line.startsWith("!"),
+				}));
+
+			return { directory, rules };
+		});
+};
+
+/**
+ * Converts an entry of the files field, always relative to the package root
+ */
+const files_entry_to_rule = (entry: string): Rule => {
+	const negated = entry.startsWith("!");
+	const pattern = normalize_file_path(entry.replace(/^!/, "")).replace(
+		/\/$/,
+		"",
+	);
+
+	return {
+		regexp: new RegExp(`^${glob_to_regexp_source(pattern)}(/.*)?$`),
+		negated,
+	};
+};
+
+/**
+ * Converts a .gitignore-style pattern to a regular expression
+ *
+ * Patterns without inner "/" match at any depth, others are relative to the ignore file directory.
+ * A matching directory matches all the files it contains.
+ *
+ * @example
+ * ignore_pattern_to_regexp('*.map', 'dist').test('dist/a/index.js.map') // true
+ */
+const ignore_pattern_to_regexp = (
+	pattern: string,
+	directory: string,
+): RegExp => {
+	const trimmed = pattern.replace(/\/$/, "");
+	const is_anchored = trimmed.includes("/");
+	const source = glob_to_regexp_source(trimmed.replace(/^\//, ""));
+	const prefix = directory === "" ? "" : `${escape_regexp(directory)}/`;
+
+	return new RegExp(`^${prefix}${is_anchored ? "" : "(.*/)?"}${source}(/.*)?$`);
+};
+
+/**
+ * Converts a glob to the source of a regular expression, with "**" matching any number of directories
+ */
+const glob_to_regexp_source = (pattern: string): string => {
+	let source = "";
+	let position = 0;
+
+	while (position < pattern.length) {
+		const char = pattern[position];
+
+		if (pattern.startsWith("**/", position)) {
+			source += "(.*/)?";
+			position += 3;
+		} else if (pattern.startsWith("**", position)) {
+			source += ".*";
+			position += 2;
+		} else if (char === "*") {
+			source += "[^/]*";
+			position++;
+		} else if (char === "?") {
+			source += "[^/]";
+			position++;
+		} else if (char === "[" && pattern.indexOf("]", position) !== -1) {
+			const end = pattern.indexOf("]", position);
+			source += pattern.slice(position, end + 1).replace(/^\[!/, "[^");
+			position = end + 1;
+		} else {
+			source += escape_regexp(char);
+			position++;
+		}
+	}
+
+	return source;
+};
+
+const escape_regexp = (value: string): string => {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+};
+
+/**
+ * Lists the files of the bin field, a single path or an object of commands
+ */
+const read_bin_files = (bin: unknown): unknown[] => {
+	if (typeof bin === "object" && bin !== null) {
+		return Object.values(bin);
+	}
+
+	return [bin];
+};
+
+const normalize_file_path = (file_path: string): string => {
+	return file_path.replace(/^\.?\//, "");
+};
@@ -0,0 +1,87 @@
+import fs from "node:fs";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { create_temp_directory } from "../test_utils";
+import {
+	find_uncovered_side_effects,
+	merge_side_effects,
+} from "./side_effects";
+
+describe("side effects", () => {
+	let temp_dir: string;
+
+	beforeEach(() => {
+		temp_dir = create_temp_directory();
+		fs.mkdirSync(path.join(temp_dir, "dist/components"), { recursive: true });
+		fs.writeFileSync(path.join(temp_dir, "dist/theme.css"), "");
+		fs.writeFileSync(path.join(temp_dir, "dist/components/button.css"), "");
+		fs.writeFileSync(path.join(temp_dir, "dist/polyfills.js"), "");
+	});
+
+	afterEach(() => {
+		fs.rmSync(temp_dir, { recursive: true, force: true });
+	});
+
+	const files = ["./dist/theme.css", "./dist/components/button.css"];
+
+	describe("find_uncovered_side_effects", () => {
+		it("should report nothing without sideEffects field or when it is true", () => {
+			expect(find_uncovered_side_effects(undefined, files, temp_dir)).toEqual(
+				[],
+			);
+			expect(find_uncovered_side_effects(true, files, temp_dir)).toEqual([]);
+		});
+
+		it("should report every file when sideEffects is false", () => {
+			expect(find_uncovered_side_effects(false, files, temp_dir)).toEqual(
+				files,
+			);
+		});
+
+		it("should match the entries literally or as globs", () => {
+			expect(
+				find_uncovered_side_effects(["dist/theme.css"], files, temp_dir),
+			).toEqual(["./dist/components/button.css"]);
+			expect(find_uncovered_side_effects(["*.css"], files, temp_dir)).toEqual(
+				[],
+			);
+			expect(
+				find_uncovered_side_effects(
+					["./dist/components/*.css"],
+					files,
+					temp_dir,
+				),
+			).toEqual(["./dist/theme.css"]);
+		});
+	});
+
+	describe("merge_side_effects", () => {
+		it("should add the uncovered files to the existing entries", () => {
+			expect(
+				merge_side_effects(
+					["./dist/polyfills.js", "./dist/theme.css"],
+					files,
+					temp_dir,
+				),
+			).toEqual([
+				"./dist/polyfills.js",
+				"./dist/theme.css",
+				"./dist/components/button.css",
+			]);
+		});
+
+		it("should list the files when sideEffects is false or missing", () => {
+			expect(merge_side_effects(false, files, temp_dir)).toEqual(files);
+			expect(merge_side_effects(undefined, files, temp_dir)).toEqual(files);
+		});
+
+		it("should leave a missing sideEffects missing when there is nothing to list", () => {
+			expect(merge_side_effects(undefined, [], temp_dir)).toBeUndefined();
+			expect(merge_side_effects(false, [], temp_dir)).toEqual([]);
+		});
+
+		it("should keep sideEffects set to true", () => {
+			expect(merge_side_effects(true, files, temp_dir)).toBe(true);
+		});
+	});
+});
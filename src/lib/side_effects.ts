@@ -0,0 +1,98 @@
+import glob from "fast-glob";
+
+/**
+ * Merges side-effectful files into the sideEffects field of package.json
+ *
+ * Entries already covered by the field, literally or through one of its globs, are not added again.
+ * A field set to true is kept, as it already marks every file as side-effectful. A missing field is
+ * left missing when there is nothing to list, as an empty list would mark every file as side-effect-free.
+ *
+ * @param current - The sideEffects field of package.json
+ * @param side_effect_files - The side-effectful files or globs, relative to the project
+ * @param project_path - The absolute path of the project
+ * @returns The sideEffects field including every side-effectful file, undefined if it stays missing
+ * @example
+ * merge_side_effects(['./dist/polyfills.js'], ['./dist/theme.css'], '/path/to/project')
+ * // ['./dist/polyfills.js', './dist/theme.css']
+ */
+export const merge_side_effects = (
+	current: unknown,
+	side_effect_files: string[],
+	project_path: string,
+): unknown => {
+	if (current === true) {
+		return current;
+	}
+
+	if (current === undefined && side_effect_files.length === 0) {
+		return undefined;
+	}
+
+	const entries = Array.isArray(current) ? current : [];
+
+	return [
+		...entries,
+		...find_uncovered_side_effects(entries, side_effect_files, project_path),
+	];
+};
+
+/**
+ * Lists the side-effectful files that the sideEffects field of package.json does not cover
+ *
+ * Bundlers treat a missing field as every file being side-effectful, so nothing is reported then.
+ * Globs without "/" match file names at any depth, as in webpack.
+ *
+ * @param current - The sideEffects field of package.json
+ * @param side_effect_files - The side-effectful files or globs, relative to the project
+ * @param project_path - The absolute path of the project
+ * @returns The side-effectful files that tree-shaking could drop
+ * @example
+ * find_uncovered_side_effects(false, ['./dist/theme.css'], '/path/to/project') // ['./dist/theme.css']
+ * find_uncovered_side_effects(['*.css'], ['./dist/theme.css'], '/path/to/project') // []
+ */
+export const find_uncovered_side_effects = (
+	current: unknown,
+	side_effect_files: string[],
+	project_path: string,
+): string[] => {
+	if (current === undefined || current === true) {
+		return [];
+	}
+
+	if (!Array.isArray(current)) {
+		return side_effect_files;
+	}
+
+	const patterns = current
+		.filter((entry): entry is string => typeof entry === "string")
+		.map(to_glob);
+	const covered = new Set(
+		glob.sync(patterns, { cwd: project_path, dot: true }),
+	);
+
+	return side_effect_files.filter((file) => {
+		if (patterns.includes(to_glob(file))) {
+			return false;
+		}
+
+		const matched = glob.sync(to_glob(file), { cwd: project_path, dot: true });
+
+		return (
+			matched.length === 0 ||
+			matched.some((file_path) => !covered.has(file_path))
+		);
+	});
+};
+
+/**
+ * Converts an entry of the sideEffects field to a glob relative to the project
+ *
+ * @example
+ * to_glob('./dist/theme.css') // 'dist/theme.css'
+ * to_glob('*.css') // '**\/*.css'
+ */
+const to_glob = (entry: string): string => {
+	const normalized = entry.replace(/^\.\//, "");
+
+	return normalized.includes("/") ? normalized : `**/${normalized}`;
+};
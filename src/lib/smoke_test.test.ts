@@ -0,0 +1,177 @@
+import fs from "node:fs";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { create_file, create_temp_directory } from "../test_utils";
+import {
+	create_package_scope,
+	list_smoke_test_targets,
+	load_smoke_test_target,
+	type SmokeTestTarget,
+} from "./smoke_test";
+
+describe("list_smoke_test_targets", () => {
+	let temp_dir: string;
+
+	beforeEach(() => {
+		temp_dir = create_temp_directory();
+	});
+
+	afterEach(() => {
+		fs.rmSync(temp_dir, { recursive: true, force: true });
+	});
+
+	it("should list the import and require targets of each subpath", () => {
+		expect(
+			list_smoke_test_targets(
+				{
+					".": {
+						import: {
+							types: "./dist/index.d.ts",
+							default: "./dist/index.js",
+						},
+						require: {
+							types: "./dist/index.d.cts",
+							default: "./dist/index.cjs",
+						},
+					},
+					"./utils": { types: "./dist/utils.d.ts", import: "./dist/utils.js" },
+				},
+				temp_dir,
+				"pkg",
+			),
+		).toEqual([
+			{
+				subpath: ".",
+				specifier: "pkg",
+				condition: "import",
+				file_path: "./dist/index.js",
+			},
+			{
+				subpath: ".",
+				specifier: "pkg",
+				condition: "require",
+				file_path: "./dist/index.cjs",
+			},
+			{
+				subpath: "./utils",
+				specifier: "pkg/utils",
+				condition: "import",
+				file_path: "./dist/utils.js",
+			},
+		]);
+	});
+
+	it("should skip CSS, type-only and excluded entries", () => {
+		expect(
+			list_smoke_test_targets(
+				{
+					"./theme.css": { import: "./dist/theme.css" },
+					"./types": { types: "./dist/types.d.ts" },
+					"./internal/*": null,
+				},
+				temp_dir,
+				"pkg",
+			),
+		).toEqual([]);
+	});
+
+	it("should expand pattern subpaths to every matching file", () => {
+		create_file(temp_dir, "dist/components/button.js");
+		create_file(temp_dir, "dist/components/card.js");
+
+		expect(
+			list_smoke_test_targets(
+				{ "./components/*": { import: "./dist/components/*.js" } },
+				temp_dir,
+				"pkg",
+			).map((target) => target.specifier),
+		).toEqual(["pkg/components/button", "pkg/components/card"]);
+	});
+});
+
+describe("load_smoke_test_target", () => {
+	let temp_dir: string;
+	let scope: { scope_path: string; remove: () => void };
+
+	const load = (
+		file_name: string,
+		content: string,
+		condition: SmokeTestTarget["condition"] = "import",
+	) => {
+		create_file(temp_dir, `dist/${file_name}`, content);
+		scope = create_package_scope(
+			temp_dir,
+			{ name: "test-package", type: "module" },
+			{ "./entry": { [condition]: `./dist/${file_name}` } },
+		);
+
+		return load_smoke_test_target(
+			{
+				subpath: "./entry",
+				specifier: "test-package/entry",
+				condition,
+				file_path: `./dist/${file_name}`,
+			},
+			scope.scope_path,
+			10_000,
+		);
+	};
+
+	beforeEach(() => {
+		temp_dir = create_temp_directory();
+		create_file(temp_dir, "package.json", '{ "name": "test-package" }');
+	});
+
+	afterEach(() => {
+		scope?.remove();
+		fs.rmSync(temp_dir, { recursive: true, force: true });
+	});
+
+	it("should load a target through the exports of the scope", async () => {
+		const result = await load("entry.js", "export const value = 1;");
+
+		expect(result.problem).toBeUndefined();
+	});
+
+	it("should require CommonJS targets", async () => {
+		const result = await load(
+			"entry.cjs",
+			"module.exports = require('./missing.cjs');",
+			"require",
+		);
+
+		expect(result.problem).toBe("missing-module");
+	});
+
+	it("should report syntax errors", async () => {
+		const result = await load("entry.js", "export const = 1;");
+
+		expect(result.problem).toBe("syntax-error");
+	});
+
+	it("should report missing dependencies", async () => {
+		const result = await load("entry.js", 'import "not-installed-package";');
+
+		expect(result).toMatchObject({
+			problem: "missing-dependency",
+			message: expect.stringContaining("not-installed-package"),
+		});
+	});
+
+	it("should report errors thrown at the top level", async () => {
+		const result = await load("entry.js", 'throw new Error("Boom");');
+
+		expect(result).toMatchObject({
+			problem: "top-level-error",
+			message: "Boom",
+		});
+	});
+
+	it("should remove the scope without touching the package", async () => {
+		await load("entry.js", "");
+		scope.remove();
+
+		expect(fs.existsSync(scope.scope_path)).toBe(false);
+		expect(fs.existsSync(path.join(temp_dir, "dist/entry.js"))).toBe(true);
+	});
+});
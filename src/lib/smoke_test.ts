@@ -0,0 +1,305 @@
+import { execFile } from "node:child_process";
+import fs from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { promisify } from "node:util";
+import type { ExportMap } from "../types.js";
+import {
+	find_pattern_substitutions,
+	resolve_export_target,
+} from "./module_resolution.js";
+
+/**
+ * Way a target is loaded by its package specifier: `import()` or `require()`
+ */
+export type SmokeTestCondition = "import" | "require";
+
+/**
+ * JavaScript target loaded by the smoke test
+ */
+export type SmokeTestTarget = {
+	subpath: string;
+	/** The package specifier, with the matched file in place of "*" for pattern subpaths */
+	specifier: string;
+	condition: SmokeTestCondition;
+	/** The path of the file, relative to the package (e.g. "./dist/index.js") */
+	file_path: string;
+};
+
+/**
+ * Reason a target failed to load
+ *
+ * - `syntax-error`: the file, or one of its imports, is not valid JavaScript
+ * - `missing-dependency`: a package imported by the file cannot be found
+ * - `missing-module`: a relative import of the file cannot be found
+ * - `top-level-error`: an error was thrown while evaluating the file
+ * - `timeout`: loading did not finish in time
+ */
+export type SmokeTestProblem =
+	| "syntax-error"
+	| "missing-dependency"
+	| "missing-module"
+	| "top-level-error"
+	| "timeout";
+
+/**
+ * Outcome of loading a target
+ */
+export type SmokeTestResult = SmokeTestTarget & {
+	problem?: SmokeTestProblem;
+	/** The first line of the error message, when the target failed to load */
+	message?: string;
+};
+
+const LOAD_CONDITIONS: Record<SmokeTestCondition, string[]> = {
+	import: ["node", "import"],
+	require: ["node", "require"],
+};
+
+/**
+ * Prefix of the line the child process prints when loading fails, to tell it apart from the output
+ * of the loaded module
+ */
+const ERROR_MARKER = "xportify-smoke-test:";
+
+const exec_file = promisify(execFile);
+
+/**
+ * Lists the JavaScript targets of an export map, as Node.js resolves them for `import()` and `require()`
+ *
+ * Targets are loaded with `require()` only when the entry has a `require` condition. Type-only entries,
+ * excluded subpaths and non-JavaScript targets (e.g. CSS) are skipped. Pattern subpaths are expanded to
+ * every matching file.
+ *
+ * @param exports - The export map
+ * @param project_path - The absolute path of the package
+ * @param package_name - The name of the package
+ * @returns The targets to load
+ * @example
+ * list_smoke_test_targets({
+ *   '.': { types: './dist/index.d.ts', import: './dist/index.js', require: './dist/index.cjs' },
+ *   './theme.css': './dist/theme.css',
+ * }, '/path/to/project', 'pkg')
+ * // [
+ * //   { subpath: '.', specifier: 'pkg', condition: 'import', file_path: './dist/index.js' },
+ * //   { subpath: '.', specifier: 'pkg', condition: 'require', file_path: './dist/index.cjs' },
+ * // ]
+ */
+export const list_smoke_test_targets = (
+	exports: ExportMap,
+	project_path: string,
+	package_name: string,
+): SmokeTestTarget[] => {
+	const targets: SmokeTestTarget[] = [];
+
+	for (const [subpath, entry] of Object.entries(exports)) {
+		const conditions: SmokeTestCondition[] = has_condition(entry, "require")
+			? ["import", "require"]
+			: ["import"];
+		const substitutions = subpath.includes("*")
+			? find_pattern_substitutions(entry, project_path, (target) =>
+					/\.[cm]?js$/.test(target),
+				)
+			: [""];
+
+		for (const substitution of substitutions) {
+			const resolved_subpath = subpath.replace("*", substitution);
+			const specifier =
+				resolved_subpath === "."
+					? package_name
+					: `${package_name}/${resolved_subpath.slice(2)}`;
+
+			for (const condition of conditions) {
+				const target = resolve_export_target(
+					exports,
+					resolved_subpath,
+					LOAD_CONDITIONS[condition],
+				);
+
+				if (target === undefined || !/\.[cm]?js$/.test(target)) {
+					continue;
+				}
+
+				targets.push({
+					subpath,
+					specifier,
+					condition,
+					file_path: `./${path.posix.normalize(target)}`,
+				});
+			}
+		}
+	}
+
+	return targets;
+};
+
+/**
+ * Creates a temporary package scope where the package name resolves to itself through the given exports
+ *
+ * The scope holds the package.json with the generated exports and links to every other entry of the
+ * package, so that nothing is written to the package itself. Node.js follows the links, so the loaded
+ * files keep their module format and resolve their dependencies from the package.
+ *
+ * @param project_path - The absolute path of the package
+ * @param package_json - The content of package.json, its exports being replaced by the export map
+ * @param exports - The export map to load the targets through
+ * @returns The path of the scope, and a function removing it
+ */
+export const create_package_scope = (
+	project_path: string,
+	package_json: Record<string, unknown>,
+	exports: ExportMap,
+): { scope_path: string; remove: () => void } => {
+	const scope_path = fs.mkdtempSync(path.join(tmpdir(), "xportify-smoke-"));
+
+	fs.writeFileSync(
+		path.join(scope_path, "package.json"),
+		JSON.stringify({ ...package_json, exports }, null, 2),
+	);
+
+	for (const entry of fs.readdirSync(project_path, { withFileTypes: true })) {
+		if (entry.name === "package.json") {
+			continue;
+		}
+
+		fs.symlinkSync(
+			path.join(project_path, entry.name),
+			path.join(scope_path, entry.name),
+			entry.isDirectory() ? "junction" : "file",
+		);
+	}
+
+	return {
+		scope_path,
+		// links are removed without following them
+		remove: () => fs.rmSync(scope_path, { recursive: true, force: true }),
+	};
+};
+
+/**
+ * Loads a target by its package specifier in an isolated Node.js process
+ *
+ * @param target - The target to load
+ * @param scope_path - The package scope the specifier is resolved from
+ * @param timeout - The time in milliseconds after which loading is aborted
+ * @returns The target, with the problem and the error message if it failed to load
+ * @example
+ * await load_smoke_test_target(
+ *   { subpath: '.', specifier: 'pkg', condition: 'import', file_path: './dist/index.js' },
+ *   scope_path,
+ *   10_000,
+ * )
+ * // { subpath: '.', specifier: 'pkg', condition: 'import', file_path: './dist/index.js' }
+ */
+export const load_smoke_test_target = async (
+	target: SmokeTestTarget,
+	scope_path: string,
+	timeout: number,
+): Promise<SmokeTestResult> => {
+	const specifier = JSON.stringify(target.specifier);
+	// the process exits once loaded, in case the module keeps handles open
+	const script = `
+try {
+	${target.condition === "import" ? `await import(${specifier})` : `require(${specifier})`};
+} catch (error) {
+	console.error("${ERROR_MARKER}" + JSON.stringify({
+		name: error?.name,
+		code: error?.code,
+		message: String(error?.message ?? error),
+	}));
+	process.exit(1);
+}
+process.exit(0);
+`;
+	const args =
+		target.condition === "import"
+			? ["--input-type=module", "--eval", script]
+			: ["--eval", script];
+
+	try {
+		await exec_file(process.execPath, args, { cwd: scope_path, timeout });
+
+		return target;
+	} catch (error) {
+		const { killed, stderr, code } = error as {
+			killed?: boolean;
+			stderr?: string;
+			code?: number | string;
+		};
+
+		if (killed) {
+			return {
+				...target,
+				problem: "timeout",
+				message: `Loading did not finish within ${timeout}ms.`,
+			};
+		}
+
+		return { ...target, ...read_load_error(stderr ?? "", code) };
+	}
+};
+
+/**
+ * Classifies the error printed by the child process
+ */
+const read_load_error = (
+	stderr: string,
+	exit_code: number | string | undefined,
+): { problem: SmokeTestProblem; message: string } => {
+	const lines = stderr.split(/\r?\n/).filter((line) => line.trim() !== "");
+	const marked = lines.find((line) => line.startsWith(ERROR_MARKER));
+
+	// errors thrown outside of the loading, e.g. in a timer, are printed by Node.js
+	if (marked === undefined) {
+		return {
+			problem: "top-level-error",
+			message: lines[lines.length - 1] ?? `Exited with code ${exit_code}.`,
+		};
+	}
+
+	const error = JSON.parse(marked.slice(ERROR_MARKER.length)) as {
+		name?: string;
+		code?: string;
+		message: string;
+	};
+	const [message] = error.message.split(/\r?\n/);
+
+	if (error.name === "SyntaxError") {
+		return { problem: "syntax-error", message };
+	}
+
+	if (
+		error.code === "ERR_MODULE_NOT_FOUND" ||
+		error.code === "MODULE_NOT_FOUND"
+	) {
+		const [, kind, missing] =
+			/Cannot find (package|module) '([^']+)'/.exec(message) ?? [];
+		const is_dependency =
+			kind === "package" ||
+			(missing !== undefined && !/^([./]|[a-zA-Z]:|file:)/.test(missing));
+
+		return {
+			problem: is_dependency ? "missing-dependency" : "missing-module",
+			message,
+		};
+	}
+
+	return { problem: "top-level-error", message };
+};
+
+/**
+ * Determines if an entry has the given condition at any level
+ */
+const has_condition = (entry: unknown, condition: string): boolean => {
+	if (Array.isArray(entry)) {
+		return entry.some((item) => has_condition(item, condition));
+	}
+
+	if (typeof entry === "object" && entry !== null) {
+		return Object.entries(entry).some(
+			([key, value]) => key === condition || has_condition(value, condition),
+		);
+	}
+
+	return false;
+};
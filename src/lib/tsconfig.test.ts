@@ -0,0 +1,140 @@
+import fs from "node:fs";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { create_temp_directory } from "../test_utils";
+import { parse_jsonc, read_tsconfig_layout } from "./tsconfig";
+
+describe("parse_jsonc", () => {
+	it("should ignore comments and trailing commas", () => {
+		const content = `{
+			// line comment
+			"compilerOptions": {
+				/* block comment */
+				"outDir": "dist",
+				"paths": { "@/*": ["./src/*"], },
+			},
+		}`;
+
+		expect(parse_jsonc(content)).toEqual({
+			compilerOptions: { outDir: "dist", paths: { "@/*": ["./src/*"] } },
+		});
+	});
+
+	it("should keep comment markers inside strings", () => {
+		expect(
+			parse_jsonc('{ "a": "//not a comment", "b": "/* nor this */" }'),
+		).toEqual({ a: "//not a comment", b: "/* nor this */" });
+	});
+});
+
+describe("read_tsconfig_layout", () => {
+	let temp_dir: string;
+
+	const write = (file_path: string, content: unknown) => {
+		const absolute_path = path.join(temp_dir, file_path);
+		fs.mkdirSync(path.dirname(absolute_path), { recursive: true });
+		fs.writeFileSync(absolute_path, JSON.stringify(content));
+	};
+
+	beforeEach(() => {
+		temp_dir = create_temp_directory();
+	});
+
+	afterEach(() => {
+		fs.rmSync(temp_dir, { recursive: true, force: true });
+	});
+
+	it("should read the directories of a tsconfig", () => {
+		write("tsconfig.json", {
+			compilerOptions: {
+				rootDir: "./src",
+				outDir: "./dist/esm",
+				declarationDir: "./dist/types",
+			},
+		});
+
+		const result = read_tsconfig_layout(path.join(temp_dir, "tsconfig.json"));
+
+		expect(result).toEqual({
+			validated: true,
+			data: {
+				root_dir: path.join(temp_dir, "src"),
+				out_dir: path.join(temp_dir, "dist/esm"),
+				declaration_dir: path.join(temp_dir, "dist/types"),
+			},
+		});
+	});
+
+	it("should resolve extended directories relative to the file declaring them", () => {
+		write("config/tsconfig.base.json", {
+			compilerOptions: { rootDir: "../src", outDir: "../build" },
+		});
+		write("tsconfig.json", {
+			extends: "./config/tsconfig.base",
+			compilerOptions: { outDir: "./dist" },
+		});
+
+		const result = read_tsconfig_layout(path.join(temp_dir, "tsconfig.json"));
+
+		expect(result).toEqual({
+			validated: true,
+			data: {
+				root_dir: path.join(temp_dir, "src"),
+				out_dir: path.join(temp_dir, "dist"),
+			},
+		});
+	});
+
+	it("should follow an array of extended configurations in order", () => {
+		write("a.json", { compilerOptions: { rootDir: "a", outDir: "a" } });
+		write("b.json", { compilerOptions: { outDir: "b" } });
+		write("tsconfig.json", { extends: ["./a.json", "./b.json"] });
+
+		const result = read_tsconfig_layout(path.join(temp_dir, "tsconfig.json"));
+
+		expect(result).toEqual({
+			validated: true,
+			data: {
+				root_dir: path.join(temp_dir, "a"),
+				out_dir: path.join(temp_dir, "b"),
+			},
+		});
+	});
+
+	it("should resolve configurations extended from a package", () => {
+		write("node_modules/@acme/tsconfig/package.json", {
+			name: "@acme/tsconfig",
+		});
+		write("node_modules/@acme/tsconfig/library.json", {
+			compilerOptions: { declarationDir: "types" },
+		});
+		write("tsconfig.json", { extends: "@acme/tsconfig/library" });
+
+		const result = read_tsconfig_layout(path.join(temp_dir, "tsconfig.json"));
+
+		expect(result).toEqual({
+			validated: true,
+			data: {
+				declaration_dir: path.join(
+					temp_dir,
+					"node_modules/@acme/tsconfig/types",
+				),
+			},
+		});
+	});
+
+	it("should report unresolved and circular extends", () => {
+		write("missing.json", { extends: "./nowhere.json" });
+		write("a.json", { extends: "./b.json" });
+		write("b.json", { extends: "./a.json" });
+
+		const missing = read_tsconfig_layout(path.join(temp_dir, "missing.json"));
+		const circular = read_tsconfig_layout(path.join(temp_dir, "a.json"));
+
+		expect(missing.validated).toBe(false);
+		expect(circular).toEqual({
+			validated: false,
+			error: expect.stringContaining("Circular extends"),
+		});
+	});
+});
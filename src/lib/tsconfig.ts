@@ -0,0 +1,210 @@
+import fs from "node:fs";
+import { createRequire } from "node:module";
+import path from "node:path";
+import type { ValidationResult } from "../types.js";
+
+/**
+ * Source and output directories declared by a tsconfig, as absolute paths
+ */
+export type TsconfigLayout = {
+	root_dir?: string;
+	out_dir?: string;
+	declaration_dir?: string;
+};
+
+/**
+ * Reads rootDir, outDir and declarationDir from a tsconfig, following its extends chain
+ *
+ * As in TypeScript, each directory is resolved relative to the configuration file that declares it,
+ * and options of the extending configuration override the ones of the extended configurations.
+ *
+ * @param tsconfig_path - The absolute path of the tsconfig file
+ * @returns The declared directories, or an error if a configuration cannot be read
+ * @example
+ * read_tsconfig_layout('/path/to/project/tsconfig.json')
+ * // { validated: true, data: { root_dir: '/path/to/project/src', out_dir: '/path/to/project/dist/esm', declaration_dir: '/path/to/project/dist/types' } }
+ */
+export const read_tsconfig_layout = (
+	tsconfig_path: string,
+	visited: string[] = [],
+): ValidationResult<TsconfigLayout> => {
+	if (visited.includes(tsconfig_path)) {
+		return {
+			validated: false,
+			error: `Circular extends in "${tsconfig_path}".`,
+		};
+	}
+
+	let tsconfig: {
+		extends?: string | string[];
+		compilerOptions?: Record<string, unknown>;
+	};
+
+	try {
+		tsconfig = parse_jsonc(fs.readFileSync(tsconfig_path, "utf8"));
+	} catch (error) {
+		return {
+			validated: false,
+			error: `Unable to read tsconfig "${tsconfig_path}": ${(error as Error).message}`,
+		};
+	}
+
+	const layout: TsconfigLayout = {};
+	const extended_configs =
+		tsconfig.extends === undefined
+			? []
+			: Array.isArray(tsconfig.extends)
+				? tsconfig.extends
+				: [tsconfig.extends];
+
+	for (const extended_config of extended_configs) {
+		const extended_path = resolve_extended_tsconfig(
+			extended_config,
+			tsconfig_path,
+		);
+
+		if (extended_path === undefined) {
+			return {
+				validated: false,
+				error: `Unable to resolve "${extended_config}" extended by "${tsconfig_path}".`,
+			};
+		}
+
+		const extended_layout = read_tsconfig_layout(extended_path, [
+			...visited,
+			tsconfig_path,
+		]);
+
+		if (!extended_layout.validated) {
+			return extended_layout;
+		}
+
+		Object.assign(layout, extended_layout.data);
+	}
+
+	const compiler_options = tsconfig.compilerOptions ?? {};
+	const directory = path.dirname(tsconfig_path);
+	const options: [keyof TsconfigLayout, string][] = [
+		["root_dir", "rootDir"],
+		["out_dir", "outDir"],
+		["declaration_dir", "declarationDir"],
+	];
+
+	for (const [key, option] of options) {
+		const value = compiler_options[option];
+
+		if (typeof value === "string") {
+			layout[key] = path.resolve(directory, value);
+		}
+	}
+
+	return { validated: true, data: layout };
+};
+
+/**
+ * Resolves the path of an extended tsconfig, either relative or from a package
+ */
+const resolve_extended_tsconfig = (
+	extended_config: string,
+	tsconfig_path: string,
+): string | undefined => {
+	const is_relative =
+		extended_config.startsWith(".") || path.isAbsolute(extended_config);
+
+	if (is_relative) {
+		const extended_path = path.resolve(
+			path.dirname(tsconfig_path),
+			extended_config,
+		);
+
+		return [extended_path, `${extended_path}.json`].find(
+			(candidate) =>
+				fs.existsSync(candidate) && fs.statSync(candidate).isFile(),
+		);
+	}
+
+	const require = createRequire(tsconfig_path);
+
+	for (const candidate of [
+		extended_config,
+		`${extended_config}.json`,
+		`${extended_config}/tsconfig.json`,
+	]) {
+		try {
+			return require.resolve(candidate);
+		} catch {
+			// try the next candidate
+		}
+	}
+
+	return undefined;
+};
+
+/**
+ * Parses JSON with comments and trailing commas, as accepted in tsconfig files
+ *
+ * @param content - The JSONC text
+ * @returns The parsed value
+ * @example
+ * parse_jsonc('{ "outDir": "dist", /* comment *\/ }') // { outDir: 'dist' }
+ */
+export const parse_jsonc = (content: string) => {
+	let json = "";
+	let position = 0;
+
+	while (position < content.length) {
+		const char = content[position];
+		const next_char = content[position + 1];
+
+		if (char === '"') {
+			let end = position + 1;
+
+			while (end < content.length && content[end] !== '"') {
+				end += content[end] === "\\" ? 2 : 1;
+			}
+
+			json += content.slice(position, end + 1);
+			position = end + 1;
+		} else if (char === "/" && next_char === "/") {
+			const end = content.indexOf("\n", position);
+			position = end === -1 ? content.length : end;
+		} else if (char === "/" && next_char === "*") {
+			const end = content.indexOf("*/", position + 2);
+			position = end === -1 ? content.length : end + 2;
+		} else {
+			const is_trailing_comma =
+				char === "," &&
+				/[}\]]/.test(next_significant_char(content, position + 1));
+
+			if (!is_trailing_comma) {
+				json += char;
+			}
+			position++;
+		}
+	}
+
+	return JSON.parse(json);
+};
+
+/**
+ * Returns the next character that is neither whitespace nor part of a comment
+ */
+const next_significant_char = (content: string, position: number): string => {
+	let current = position;
+
+	while (current < content.length) {
+		if (/\s/.test(content[current])) {
+			current++;
+		} else if (content.startsWith("//", current)) {
+			const end = content.indexOf("\n", current);
+			current = end === -1 ? content.length : end;
+		} else if (content.startsWith("/*", current)) {
+			const end = content.indexOf("*/", current + 2);
+			current = end === -1 ? content.length : end + 2;
+		} else {
+			return content[current];
+		}
+	}
+
+	return "";
+};
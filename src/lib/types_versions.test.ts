@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { diff_types_versions, generate_types_versions } from "./types_versions";
+
+describe("generate_types_versions", () => {
+	it("should map every typed subpath except the root", () => {
+		const types_versions = generate_types_versions({
+			".": { types: "./dist/index.d.ts", import: "./dist/index.js" },
+			"./utils": {
+				import: { types: "./dist/utils.d.ts", default: "./dist/utils.js" },
+				require: { types: "./dist/utils.d.cts", default: "./dist/utils.cjs" },
+			},
+			"./components/*": {
+				types: "./dist/components/*.d.ts",
+				import: "./dist/components/*.js",
+			},
+			"./styles.css": { import: "./dist/styles.css" },
+			"./package.json": "./package.json",
+			"./internal/*": null,
+		});
+
+		expect(types_versions).toEqual({
+			"*": {
+				utils: ["./dist/utils.d.ts"],
+				"components/*": ["./dist/components/*.d.ts"],
+			},
+		});
+	});
+
+	it("should return undefined when only the root is typed", () => {
+		expect(
+			generate_types_versions({
+				".": { types: "./dist/index.d.ts", import: "./dist/index.js" },
+			}),
+		).toBeUndefined();
+	});
+});
+
+describe("diff_types_versions", () => {
+	it("should list the missing, stale and changed subpaths", () => {
+		const changed = diff_types_versions(
+			{
+				">=4.2": {
+					utils: ["./dist/utils.d.ts"],
+					old: ["./dist/old.d.ts"],
+					button: ["./dist/button.d.ts"],
+				},
+			},
+			{
+				"*": {
+					utils: ["./dist/utils.d.ts"],
+					button: ["./dist/components/button.d.ts"],
+					card: ["./dist/card.d.ts"],
+				},
+			},
+		);
+
+		expect(changed).toEqual(["old", "button", "card"]);
+	});
+
+	it("should return no difference when both agree", () => {
+		const types_versions = { "*": { utils: ["./dist/utils.d.ts"] } };
+
+		expect(diff_types_versions(types_versions, types_versions)).toEqual([]);
+	});
+});
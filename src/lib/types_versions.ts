@@ -0,0 +1,113 @@
+import type { ExportMap } from "../types.js";
+
+/**
+ * typesVersions field of package.json, indexed by TypeScript version range then by subpath
+ */
+export type TypesVersions = Record<string, Record<string, string[]>>;
+
+/**
+ * Generates the typesVersions field matching an export map, for consumers using `moduleResolution: node10`
+ *
+ * The root subpath "." is left out: it is typed by the "types" field of package.json, and a mapping
+ * for it would also remap that field. Subpaths without declaration are left out as well.
+ *
+ * @param exports - The export map
+ * @returns The typesVersions field, or undefined if no subpath other than "." has types
+ * @example
+ * generate_types_versions({
+ *   '.': { types: './dist/index.d.ts', import: './dist/index.js' },
+ *   './components/*': { import: { types: './dist/components/*.d.ts', default: './dist/components/*.js' } },
+ * })
+ * // { '*': { 'components/*': ['./dist/components/*.d.ts'] } }
+ */
+export const generate_types_versions = (
+	exports: ExportMap,
+): TypesVersions | undefined => {
+	const paths: Record<string, string[]> = {};
+
+	for (const [subpath, entry] of Object.entries(exports)) {
+		const types_target = find_types_target(entry);
+
+		if (subpath !== "." && types_target !== undefined) {
+			paths[subpath.slice(2)] = [types_target];
+		}
+	}
+
+	if (Object.keys(paths).length === 0) {
+		return undefined;
+	}
+
+	return { "*": paths };
+};
+
+/**
+ * Finds the declaration target of an export entry, preferring the outermost "types" condition
+ *
+ * @example
+ * find_types_target({ import: { types: './dist/a.d.ts', default: './dist/a.js' } }) // './dist/a.d.ts'
+ */
+const find_types_target = (entry: unknown): string | undefined => {
+	if (typeof entry !== "object" || entry === null || Array.isArray(entry)) {
+		return undefined;
+	}
+
+	const conditions = entry as Record<string, unknown>;
+
+	if (typeof conditions.types === "string") {
+		return conditions.types;
+	}
+
+	for (const value of Object.values(conditions)) {
+		const types_target = find_types_target(value);
+
+		if (types_target !== undefined) {
+			return types_target;
+		}
+	}
+
+	return undefined;
+};
+
+/**
+ * Lists the subpaths whose typesVersions mapping disagrees with the generated one
+ *
+ * Only the first version range is compared, as TypeScript uses the first range matching its version.
+ *
+ * @param current - The typesVersions field of package.json
+ * @param generated - The typesVersions generated from the exports
+ * @returns The missing, stale and changed subpaths, empty if both agree
+ * @example
+ * diff_types_versions({ '*': { utils: ['./dist/utils.d.ts'] } }, { '*': { button: ['./dist/button.d.ts'] } })
+ * // ['utils', 'button']
+ */
+export const diff_types_versions = (
+	current: unknown,
+	generated: TypesVersions | undefined,
+): string[] => {
+	const first_range = (types_versions: unknown): Record<string, unknown> => {
+		if (typeof types_versions !== "object" || types_versions === null) {
+			return {};
+		}
+
+		const [paths] = Object.values(types_versions);
+
+		return typeof paths === "object" && paths !== null
+			? (paths as Record<string, unknown>)
+			: {};
+	};
+
+	const current_paths = first_range(current);
+	const generated_paths = first_range(generated);
+	const subpaths = [
+		...Object.keys(current_paths),
+		...Object.keys(generated_paths).filter(
+			(subpath) => !(subpath in current_paths),
+		),
+	];
+
+	return subpaths.filter(
+		(subpath) =>
+			JSON.stringify(current_paths[subpath]) !==
+			JSON.stringify(generated_paths[subpath]),
+	);
+};
@@ -0,0 +1,133 @@
+import fs from "node:fs";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { create_file, create_temp_directory } from "../test_utils";
+import {
+	discover_workspace_packages,
+	parse_pnpm_workspace_packages,
+} from "./workspace";
+
+describe("parse_pnpm_workspace_packages", () => {
+	it("should parse a block list", () => {
+		const content = [
+			"# workspace",
+			"packages:",
+			'  - "packages/*"',
+			"  - 'apps/*' # applications",
+			"  - '!**/test/**'",
+			"catalog:",
+			"  - not-a-package",
+		].join("\n");
+
+		expect(parse_pnpm_workspace_packages(content)).toEqual([
+			"packages/*",
+			"apps/*",
+			"!**/test/**",
+		]);
+	});
+
+	it("should parse a flow list", () => {
+		expect(
+			parse_pnpm_workspace_packages('packages: ["packages/*", libs/*]\n'),
+		).toEqual(["packages/*", "libs/*"]);
+	});
+});
+
+describe("discover_workspace_packages", () => {
+	let temp_dir: string;
+
+	beforeEach(() => {
+		temp_dir = create_temp_directory();
+		create_file(temp_dir, "packages/ui/package.json", '{ "name": "@acme/ui" }');
+		create_file(temp_dir, "packages/core/package.json", "{}");
+		create_file(temp_dir, "packages/fixtures/package.json", "{}");
+		create_file(temp_dir, "packages/docs/README.md");
+	});
+
+	afterEach(() => {
+		fs.rmSync(temp_dir, { recursive: true, force: true });
+	});
+
+	it("should discover packages from pnpm-workspace.yaml", () => {
+		create_file(
+			temp_dir,
+			"pnpm-workspace.yaml",
+			"packages:\n  - packages/*\n  - '!packages/fixtures'\n",
+		);
+
+		const result = discover_workspace_packages(temp_dir);
+
+		expect(result).toEqual({
+			validated: true,
+			data: [
+				{
+					name: "packages/core",
+					path: path.join(temp_dir, "packages/core"),
+					relative_path: "packages/core",
+				},
+				{
+					name: "@acme/ui",
+					path: path.join(temp_dir, "packages/ui"),
+					relative_path: "packages/ui",
+				},
+			],
+		});
+	});
+
+	it("should discover packages from the workspaces field of package.json", () => {
+		create_file(
+			temp_dir,
+			"package.json",
+			JSON.stringify({ workspaces: ["packages/ui"] }),
+		);
+
+		const result = discover_workspace_packages(temp_dir);
+
+		expect(result.validated && result.data.map(({ name }) => name)).toEqual([
+			"@acme/ui",
+		]);
+	});
+
+	it("should support the yarn workspaces object form", () => {
+		create_file(
+			temp_dir,
+			"package.json",
+			JSON.stringify({ workspaces: { packages: ["packages/core"] } }),
+		);
+
+		const result = discover_workspace_packages(temp_dir);
+
+		expect(result.validated && result.data).toHaveLength(1);
+	});
+
+	it("should name packages with a malformed package.json after their directory", () => {
+		create_file(temp_dir, "packages/ui/package.json", '{ "name": ');
+		create_file(
+			temp_dir,
+			"pnpm-workspace.yaml",
+			"packages:\n  - packages/ui\n",
+		);
+
+		const result = discover_workspace_packages(temp_dir);
+
+		expect(result.validated && result.data.map(({ name }) => name)).toEqual([
+			"packages/ui",
+		]);
+	});
+
+	it("should fail when the package.json of the root is malformed", () => {
+		create_file(temp_dir, "package.json", '{ "workspaces": ');
+
+		const result = discover_workspace_packages(temp_dir);
+
+		expect(!result.validated && result.error).toMatch(
+			/^Unable to read the package.json of the workspace root: /,
+		);
+	});
+
+	it("should fail when no workspace is declared", () => {
+		create_file(temp_dir, "package.json", "{}");
+
+		expect(discover_workspace_packages(temp_dir).validated).toBe(false);
+	});
+});
@@ -0,0 +1,176 @@
+import fs from "node:fs";
+import path from "node:path";
+import glob from "fast-glob";
+import type { ValidationResult } from "../types.js";
+
+/**
+ * Package discovered in a workspace
+ */
+export type WorkspacePackage = {
+	/** Name from package.json, or the directory when unnamed */
+	name: string;
+	/** Absolute path of the package directory */
+	path: string;
+	/** Path of the package directory relative to the workspace root */
+	relative_path: string;
+};
+
+/**
+ * Discovers the packages of a workspace
+ *
+ * Package globs come from pnpm-workspace.yaml, otherwise from the "workspaces" field of the root package.json.
+ * Globs starting with "!" exclude directories.
+ *
+ * @param root_path - The absolute path of the workspace root
+ * @returns The packages sorted by relative path, or an error if no workspace is declared
+ * @example
+ * discover_workspace_packages('/path/to/monorepo')
+ * // { validated: true, data: [{ name: '@acme/ui', path: '/path/to/monorepo/packages/ui', relative_path: 'packages/ui' }] }
+ */
+export const discover_workspace_packages = (
+	root_path: string,
+): ValidationResult<WorkspacePackage[]> => {
+	let patterns: string[] | undefined;
+	try {
+		patterns = read_workspace_patterns(root_path);
+	} catch (error) {
+		return {
+			validated: false,
+			error: `Unable to read the package.json of the workspace root: ${(error as Error).message}`,
+		};
+	}
+
+	if (patterns === undefined) {
+		return {
+			validated: false,
+			error:
+				'No workspace found. Declare packages in pnpm-workspace.yaml or in the "workspaces" field of package.json.',
+		};
+	}
+
+	const included = patterns.filter((pattern) => !pattern.startsWith("!"));
+	const excluded = patterns
+		.filter((pattern) => pattern.startsWith("!"))
+		.map((pattern) => pattern.slice(1));
+
+	const directories = glob.sync(included, {
+		cwd: root_path,
+		onlyDirectories: true,
+		ignore: ["**/node_modules/**", ...excluded],
+	});
+
+	const packages = directories
+		.filter((directory) =>
+			fs.existsSync(path.join(root_path, directory, "package.json")),
+		)
+		.sort()
+		.map((directory) => {
+			const package_path = path.join(root_path, directory);
+
+			return {
+				name: read_package_name(package_path) ?? directory,
+				path: package_path,
+				relative_path: directory,
+			};
+		});
+
+	return { validated: true, data: packages };
+};
+
+/**
+ * Reads the name of a package, undefined if its package.json is malformed, which is reported when
+ * generating its exports
+ */
+const read_package_name = (package_path: string): string | undefined => {
+	try {
+		return JSON.parse(
+			fs.readFileSync(path.join(package_path, "package.json"), "utf8"),
+		).name;
+	} catch {
+		return undefined;
+	}
+};
+
+/**
+ * Reads the package globs declared by the workspace root
+ */
+const read_workspace_patterns = (root_path: string): string[] | undefined => {
+	const pnpm_workspace_path = path.join(root_path, "pnpm-workspace.yaml");
+
+	if (fs.existsSync(pnpm_workspace_path)) {
+		return parse_pnpm_workspace_packages(
+			fs.readFileSync(pnpm_workspace_path, "utf8"),
+		);
+	}
+
+	const package_json_path = path.join(root_path, "package.json");
+
+	if (!fs.existsSync(package_json_path)) {
+		return undefined;
+	}
+
+	const { workspaces } = JSON.parse(fs.readFileSync(package_json_path, "utf8"));
+
+	if (Array.isArray(workspaces)) {
+		return workspaces;
+	}
+
+	if (Array.isArray(workspaces?.packages)) {
+		return workspaces.packages;
+	}
+
+	return undefined;
+};
+
+/**
+ * Extracts the "packages" list of a pnpm-workspace.yaml file
+ *
+ * Only the block list and flow list forms used by pnpm are supported.
+ *
+ * @param content - The content of pnpm-workspace.yaml
+ * @returns The package globs
+ * @example
+ * parse_pnpm_workspace_packages('packages:\n  - "packages/*"\n  - "!**\/test/**"\n')
+ * // ['packages/*', '!**\/test/**']
+ */
+export const parse_pnpm_workspace_packages = (content: string): string[] => {
+	const packages: string[] = [];
+	let in_packages = false;
+
+	for (const line of content.split(/\r?\n/)) {
+		const trimmed = line.replace(/\s+#.*$/, "").trimEnd();
+
+		if (trimmed === "" || trimmed.startsWith("#")) {
+			continue;
+		}
+
+		// top-level key
+		if (/^\S/.test(trimmed)) {
+			const flow_list = trimmed.match(/^packages\s*:\s*\[(.*)\]$/);
+
+			if (flow_list) {
+				packages.push(
+					...flow_list[1]
+						.split(",")
+						.map(unquote)
+						.filter((value) => value !== ""),
+				);
+			}
+
+			in_packages = /^packages\s*:\s*$/.test(trimmed);
+			continue;
+		}
+
+		const item = trimmed.match(/^\s*-\s*(.+)$/);
+
+		if (in_packages && item) {
+			packages.push(unquote(item[1]));
+		}
+	}
+
+	return packages;
+};
+
+const unquote = (value: string): string => {
+	return value.trim().replace(/^(["'])(.*)\1$/, "$2");
+};
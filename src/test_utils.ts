@@ -0,0 +1,29 @@
+import fs from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+/**
+ * Creates an empty temporary directory, to be removed after each test
+ */
+export const create_temp_directory = (): string => {
+	return fs.mkdtempSync(path.join(tmpdir(), "xportify-test-"));
+};
+
+/**
+ * Creates a file along with its parent directories
+ *
+ * @param base_path - The absolute path of the directory the file is created in
+ * @param relative_path - The path of the file, relative to the base path
+ * @param content - The content of the file, empty by default
+ * @example
+ * create_file(temp_dir, 'src/components/button.ts', 'export const button = 1;')
+ */
+export const create_file = (
+	base_path: string,
+	relative_path: string,
+	content = "",
+) => {
+	const full_path = path.join(base_path, relative_path);
+	fs.mkdirSync(path.dirname(full_path), { recursive: true });
+	fs.writeFileSync(full_path, content);
+};
@@ -0,0 +1,55 @@
+/**
+ * Conditions of a single module format (ESM or CJS)
+ */
+export type FormatConditions = {
+	types?: string;
+	default?: string;
+};
+
+/**
+ * Entry of a single subpath in the package.json exports field
+ */
+export type ExportEntry = {
+	types?: string;
+	import?: string | FormatConditions;
+	require?: string | FormatConditions;
+};
+
+/**
+ * Entry of a subpath with platform variants, indexed by custom condition (e.g. "browser"),
+ * the entry of the base file being the "default" fallback
+ */
+export type ConditionalExportEntry = Record<string, ExportEntry>;
+
+/**
+ * Entry of an asset subpath, a single target or the same target under each of its conditions
+ */
+export type AssetExportEntry = string | Record<string, string>;
+
+/**
+ * Exports field of package.json, indexed by subpath
+ *
+ * Generated subpaths are always export entries, while hand-written ones preserved
+ * when merging can also be a single target or null.
+ */
+export type ExportMap = Record<
+	string,
+	ExportEntry | ConditionalExportEntry | AssetExportEntry | null
+>;
+
+/**
+ * Result of a validation
+ */
+export type ValidationResult<TValue> =
+	| { validated: true; data: TValue }
+	| { validated: false; error: string };
+
+/**
+ * Problem reported while generating the exports
+ */
+export type Diagnostic = {
+	severity: "error" | "warning";
+	/** Stable identifier of the problem (e.g. "missing-source") */
+	code: string;
+	message: string;
+};